@@ -0,0 +1,76 @@
+// API functions for dev-mode diagnostics
+
+const getApiUrl = () => window.location.origin;
+
+export interface TraceLLMTurn {
+  turn: number;
+  latencyMs: number;
+  streamed: boolean;
+  toolCalls: string[];
+  output: string;
+}
+
+export interface TraceToolCall {
+  turn: number;
+  name: string;
+  args: string;
+  status: string;
+  result: string;
+  latencyMs: number;
+}
+
+export interface TraceDisambiguation {
+  stage: 'pending_match' | 'detection';
+  detected: boolean;
+  candidates: string[];
+  details?: string;
+}
+
+export interface AgentTrace {
+  id: string;
+  userId: string;
+  query: string;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: number;
+  durationMs?: number;
+  responseMode?: string;
+  promptVariant?: string;
+  wordLimit?: { limit: number; words: number; action: string };
+  hasPhoto: boolean;
+  previousPhotoCount: number;
+  prompt?: { characters: number; estimatedTokens: number; historyTurns: number };
+  llmTurns: TraceLLMTurn[];
+  toolCalls: TraceToolCall[];
+  disambiguation: TraceDisambiguation[];
+  finalAnswer?: string;
+  error?: string;
+}
+
+/**
+ * Fetch recent agent query traces for a user (newest first)
+ */
+export const fetchAgentTraces = async (userId: string): Promise<AgentTrace[]> => {
+  const apiUrl = getApiUrl();
+  const response = await fetch(`${apiUrl}/api/debug/traces?userId=${userId}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch traces');
+  }
+
+  const data = await response.json();
+  return data.traces || [];
+};
+
+/**
+ * Clear all agent query traces for a user
+ */
+export const clearAgentTraces = async (userId: string): Promise<void> => {
+  const apiUrl = getApiUrl();
+  const response = await fetch(`${apiUrl}/api/debug/traces?userId=${userId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to clear traces');
+  }
+};
@@ -6,10 +6,14 @@ export interface UserSettings {
   userId: string;
   textModel: string;
   visionModel: string;
+  textModelChosen?: boolean;
+  visionModelChosen?: boolean;
   personality: 'default' | 'professional' | 'friendly' | 'candid' | 'quirky' | 'efficient';
   theme: 'light' | 'dark';
   followUpEnabled: boolean;
   chatHistoryEnabled: boolean;
+  customInstructions?: string;
+  wakeWord?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -112,6 +116,48 @@ export const updateFollowUpEnabled = async (
   return response.json();
 };
 
+/**
+ * Update only the custom instructions (an empty string clears them)
+ */
+export const updateCustomInstructions = async (
+  userId: string,
+  customInstructions: string
+): Promise<UserSettings> => {
+  const apiUrl = getApiUrl();
+  const response = await fetch(`${apiUrl}/api/db/settings/custom-instructions`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, customInstructions }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to update custom instructions');
+  }
+
+  return response.json();
+};
+
+/**
+ * Update only the custom wake phrase (an empty string removes it)
+ */
+export const updateWakeWord = async (
+  userId: string,
+  wakeWord: string
+): Promise<UserSettings> => {
+  const apiUrl = getApiUrl();
+  const response = await fetch(`${apiUrl}/api/db/settings/wake-word`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, wakeWord }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to update wake word');
+  }
+
+  return response.json();
+};
+
 /**
  * Update only the chatHistoryEnabled setting
  */
@@ -132,3 +178,50 @@ export const updateChatHistoryEnabled = async (
 
   return response.json();
 };
+
+export interface ModelOption {
+  name: string;
+  provider: string;
+  description: string;
+  capabilities: { vision: boolean; tools: boolean };
+}
+
+export interface AvailableModels {
+  textModels: ModelOption[];
+  visionModels: ModelOption[];
+}
+
+/**
+ * Fetch the models that can be chosen for textModel and visionModel
+ */
+export const fetchAvailableModels = async (): Promise<AvailableModels> => {
+  const apiUrl = getApiUrl();
+  const response = await fetch(`${apiUrl}/api/db/settings/models`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch models');
+  }
+
+  return response.json();
+};
+
+/**
+ * Update the textModel and/or visionModel settings ('' goes back to the server default)
+ */
+export const updateModels = async (
+  userId: string,
+  models: { textModel?: string; visionModel?: string }
+): Promise<UserSettings> => {
+  const apiUrl = getApiUrl();
+  const response = await fetch(`${apiUrl}/api/db/settings/models`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, ...models }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to update model');
+  }
+
+  return response.json();
+};
@@ -414,6 +414,9 @@ function ChatInterface({ userId, recipientId }: ChatInterfaceProps): React.JSX.E
           } else {
             console.log('[ChatInterface] Ignoring message update from different conversation');
           }
+        } else if (data.type === 'message_delete') {
+          console.log('[ChatInterface] 🗑️ Removing message:', data.id);
+          setMessages(prev => prev.filter(m => m.id !== data.id));
         } else if (data.type === 'processing') {
           console.log('[ChatInterface] 🔄 Processing indicator shown');
           const randomWord = thinkingWords[Math.floor(Math.random() * thinkingWords.length)];
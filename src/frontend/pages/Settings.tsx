@@ -6,9 +6,10 @@ import { useToast } from '../components/useToast';
 import { useHandGesture } from '../tools/handGestures';
 import SettingItem from '../ui/setting-item';
 import ResponseSetting from './response.setting';
+import TracesSetting from './traces.setting';
 import ToggleSwitch from '../ui/toggle-switch';
 import SimpleToggle from '../ui/simple-toggle';
-import { updateTheme, updateChatHistoryEnabled, fetchUserSettings } from '../api/settings.api';
+import { updateTheme, updateChatHistoryEnabled, fetchUserSettings, fetchAvailableModels, updateModels, AvailableModels } from '../api/settings.api';
 
 interface TranscriptionEntry {
   id: string;
@@ -30,14 +31,17 @@ interface SettingItemInfo {
   description?: string;
 }
 
+// Shown for the model pickers when the user hasn't chosen a model
+const SERVER_DEFAULT_MODEL_LABEL = 'Default';
+
 const settingItems: Record<string, SettingItemInfo> = {
   textModel: {
     settingName : 'Conversation Model',
-    description: 'GPT-4.1-mini'
+    description: ''
   },
   visionModel: {
     settingName : 'Vision Model',
-    description: 'Gemini Flash Latest'
+    description: ''
   },
   darkMode: {
     settingName : 'Theme',
@@ -139,6 +143,9 @@ function Settings({ onBack, isDarkMode, onToggleDarkMode, userId, onChatHistoryT
     return saved ? JSON.parse(saved) : false;
   });
   const [chatHistoryEnabled, setChatHistoryEnabled] = useState(false);
+  const [availableModels, setAvailableModels] = useState<AvailableModels | null>(null);
+  const [textModel, setTextModel] = useState('');
+  const [visionModel, setVisionModel] = useState('');
   const [isLoadingSettings, setIsLoadingSettings] = useState(true);
   const { toastState, showToast, hideToast } = useToast();
 
@@ -146,8 +153,12 @@ function Settings({ onBack, isDarkMode, onToggleDarkMode, userId, onChatHistoryT
   useEffect(() => {
     const loadSettings = async () => {
       try {
-        const settings = await fetchUserSettings(userId);
+        const [settings, models] = await Promise.all([fetchUserSettings(userId), fetchAvailableModels()]);
         setChatHistoryEnabled(settings.chatHistoryEnabled ?? false);
+        setAvailableModels(models);
+        // '' = no model picked, the server's default provider is used
+        setTextModel(settings.textModelChosen ? settings.textModel : '');
+        setVisionModel(settings.visionModelChosen ? settings.visionModel : '');
       } catch (error) {
         console.error('Failed to load settings:', error);
       } finally {
@@ -179,6 +190,48 @@ function Settings({ onBack, isDarkMode, onToggleDarkMode, userId, onChatHistoryT
     }
   };
 
+  // Handle model selection and sync with backend
+  const handleModelChange = async (field: 'textModel' | 'visionModel', value: string) => {
+    const setModel = field === 'textModel' ? setTextModel : setVisionModel;
+    const previous = field === 'textModel' ? textModel : visionModel;
+
+    // Optimistically update UI
+    setModel(value);
+
+    // Sync with backend
+    try {
+      await updateModels(userId, { [field]: value });
+      showToast(`${field === 'textModel' ? 'Conversation' : 'Vision'} model set to ${value || SERVER_DEFAULT_MODEL_LABEL}`, 'success');
+    } catch (error) {
+      console.error('Failed to update model:', error);
+      showToast('Failed to save model preference', 'error');
+      // Revert on failure
+      setModel(previous);
+    }
+  };
+
+  // Render a model picker for the conversation / vision model rows
+  const renderModelSelect = (field: 'textModel' | 'visionModel') => {
+    const options = field === 'textModel' ? availableModels?.textModels : availableModels?.visionModels;
+    const value = field === 'textModel' ? textModel : visionModel;
+    if (!options) return undefined;
+
+    return (
+      <select
+        className='text-[14px] font-normal bg-transparent text-right outline-none'
+        style={{ color: 'var(--secondary-foreground)' }}
+        value={value}
+        onChange={(e) => handleModelChange(field, e.target.value)}
+        aria-label={field === 'textModel' ? 'Conversation Model' : 'Vision Model'}
+      >
+        <option value=''>{SERVER_DEFAULT_MODEL_LABEL}</option>
+        {options.map((model) => (
+          <option key={model.name} value={model.name}>{model.name}</option>
+        ))}
+      </select>
+    );
+  };
+
   // Handle theme toggle and sync with backend
   const handleThemeToggle = async () => {
     const newTheme = isDarkMode ? 'light' : 'dark';
@@ -331,7 +384,9 @@ function Settings({ onBack, isDarkMode, onToggleDarkMode, userId, onChatHistoryT
                   onToggle={handleThemeToggle}
                   label="Theme"
                 />
-              ) : undefined
+              ) : item.settingName === 'Conversation Model' ? renderModelSelect('textModel')
+                : item.settingName === 'Vision Model' ? renderModelSelect('visionModel')
+                : undefined
             }
           />
         ))}
@@ -441,6 +496,9 @@ function Settings({ onBack, isDarkMode, onToggleDarkMode, userId, onChatHistoryT
                 )}
               </div>
             </div>
+
+            {/* Agent query traces */}
+            <TracesSetting userId={userId} showToast={showToast} />
           </div>
         )}
       </motion.div>
@@ -3,7 +3,7 @@ import PersonalityButton from '../ui/personality-button'
 import SettingItem from '../ui/setting-item'
 import SimpleToggle from '../ui/simple-toggle'
 import { Sparkles, Briefcase, Heart, Lightbulb, Palette, Zap, LucideIcon } from 'lucide-react'
-import { fetchUserSettings, updatePersonality, updateFollowUpEnabled } from '../api/settings.api'
+import { fetchUserSettings, updatePersonality, updateFollowUpEnabled, updateCustomInstructions, updateWakeWord } from '../api/settings.api'
 
 interface Personality {
   id: string;
@@ -56,10 +56,22 @@ const personalities: Personality[] = [
   }
 ]
 
+// Matches the server-side limit on UserSettings.customInstructions
+const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 500;
+
+// Matches the server-side limit on UserSettings.wakeWord
+const MAX_WAKE_WORD_LENGTH = 40;
+
 function ResponseSetting({ userId, showToast }: ResponseSettingProps) {
   const [selectedPersonality, setSelectedPersonality] = useState<string>('default')
   const [followUpEnabled, setFollowUpEnabled] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [customInstructions, setCustomInstructions] = useState('')
+  const [savedCustomInstructions, setSavedCustomInstructions] = useState('')
+  const [isSavingInstructions, setIsSavingInstructions] = useState(false)
+  const [wakeWord, setWakeWord] = useState('')
+  const [savedWakeWord, setSavedWakeWord] = useState('')
+  const [isSavingWakeWord, setIsSavingWakeWord] = useState(false)
 
   // Load user's settings on mount
   useEffect(() => {
@@ -68,6 +80,10 @@ function ResponseSetting({ userId, showToast }: ResponseSettingProps) {
         const settings = await fetchUserSettings(userId);
         setSelectedPersonality(settings.personality);
         setFollowUpEnabled(settings.followUpEnabled ?? false);
+        setCustomInstructions(settings.customInstructions ?? '');
+        setSavedCustomInstructions(settings.customInstructions ?? '');
+        setWakeWord(settings.wakeWord ?? '');
+        setSavedWakeWord(settings.wakeWord ?? '');
         console.log('✅ Loaded response settings:', settings.personality, settings.followUpEnabled);
       } catch (error) {
         console.error('Failed to load settings:', error);
@@ -107,6 +123,40 @@ function ResponseSetting({ userId, showToast }: ResponseSettingProps) {
     }
   }
 
+  const handleSaveCustomInstructions = async () => {
+    setIsSavingInstructions(true);
+
+    try {
+      const settings = await updateCustomInstructions(userId, customInstructions);
+      // The server sanitizes the text, so show what was actually stored
+      setCustomInstructions(settings.customInstructions ?? '');
+      setSavedCustomInstructions(settings.customInstructions ?? '');
+      showToast('Custom instructions saved', 'success');
+    } catch (error) {
+      console.error('Failed to save custom instructions:', error);
+      showToast('Failed to save custom instructions', 'error');
+    } finally {
+      setIsSavingInstructions(false);
+    }
+  }
+
+  const handleSaveWakeWord = async () => {
+    setIsSavingWakeWord(true);
+
+    try {
+      const settings = await updateWakeWord(userId, wakeWord);
+      // The server normalizes the phrase, so show what was actually stored
+      setWakeWord(settings.wakeWord ?? '');
+      setSavedWakeWord(settings.wakeWord ?? '');
+      showToast(settings.wakeWord ? 'Wake word saved' : 'Wake word removed', 'success');
+    } catch (error) {
+      console.error('Failed to save wake word:', error);
+      showToast('Wake word must be 1-4 words with at least 5 letters', 'error');
+    } finally {
+      setIsSavingWakeWord(false);
+    }
+  }
+
   return (
     <div className="w-full max-w-md mx-auto px-8">
       <h1 className="text-[24px] font-bold mb-2" style={{ color: 'var(--secondary-foreground)' }}>
@@ -136,6 +186,73 @@ function ResponseSetting({ userId, showToast }: ResponseSettingProps) {
         />
       </div>
 
+      {/* Wake Word Section */}
+      <div className="mb-6">
+        <h2 className="text-[16px] font-semibold mb-2" style={{ color: 'var(--secondary-foreground)' }}>
+          Wake Word
+        </h2>
+        <div className="rounded-[16px] p-[16px] flex flex-col gap-2"
+          style={{ backgroundColor: 'var(--primary-foreground)' }}
+        >
+          <span className="text-[12px]" style={{ color: 'var(--text-secondary)' }}>
+            Your own phrase to wake Mira. "Hey Mentra" always works too.
+          </span>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              className="flex-1 rounded-[12px] p-[12px] text-[14px] outline-none"
+              style={{ backgroundColor: 'var(--background)', color: 'var(--secondary-foreground)' }}
+              placeholder={'e.g. "Hey Jarvis"'}
+              value={wakeWord}
+              maxLength={MAX_WAKE_WORD_LENGTH}
+              onChange={(e) => setWakeWord(e.target.value)}
+              aria-label="Custom wake word"
+            />
+            <button
+              className="text-[14px] font-medium disabled:opacity-50"
+              style={{ color: 'var(--secondary-foreground)' }}
+              onClick={handleSaveWakeWord}
+              disabled={isSavingWakeWord || wakeWord === savedWakeWord}
+            >
+              {isSavingWakeWord ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Custom Instructions Section */}
+      <div className="mb-6">
+        <h2 className="text-[16px] font-semibold mb-2" style={{ color: 'var(--secondary-foreground)' }}>
+          Custom Instructions
+        </h2>
+        <div className="rounded-[16px] p-[16px] flex flex-col gap-2"
+          style={{ backgroundColor: 'var(--primary-foreground)' }}
+        >
+          <textarea
+            className="w-full min-h-[100px] rounded-[12px] p-[12px] text-[14px] resize-none outline-none"
+            style={{ backgroundColor: 'var(--background)', color: 'var(--secondary-foreground)' }}
+            placeholder={'e.g. "Call me Sam", "I\'m vegetarian", "Answer in metric"'}
+            value={customInstructions}
+            maxLength={MAX_CUSTOM_INSTRUCTIONS_LENGTH}
+            onChange={(e) => setCustomInstructions(e.target.value)}
+            aria-label="Custom instructions"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-[12px]" style={{ color: 'var(--text-secondary)' }}>
+              {customInstructions.length}/{MAX_CUSTOM_INSTRUCTIONS_LENGTH}
+            </span>
+            <button
+              className="text-[14px] font-medium disabled:opacity-50"
+              style={{ color: 'var(--secondary-foreground)' }}
+              onClick={handleSaveCustomInstructions}
+              disabled={isSavingInstructions || customInstructions === savedCustomInstructions}
+            >
+              {isSavingInstructions ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+
       {/* Personality Section */}
       <div>
         <h2 className="text-[16px] font-semibold mb-2" style={{ color: 'var(--secondary-foreground)' }}>
@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react'
+import { fetchAgentTraces, clearAgentTraces, AgentTrace } from '../api/debug.api'
+
+interface TracesSettingProps {
+  userId: string;
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+// How often the panel refreshes while open
+const TRACE_REFRESH_INTERVAL_MS = 5000;
+
+const statusColors: Record<AgentTrace['status'], string> = {
+  running: '#F59E0B',
+  completed: '#10B981',
+  failed: '#EF4444'
+}
+
+/**
+ * Dev-mode panel listing the agent's recent query traces
+ */
+function TracesSetting({ userId, showToast }: TracesSettingProps) {
+  const [traces, setTraces] = useState<AgentTrace[]>([])
+  const [expandedTraceId, setExpandedTraceId] = useState<string | null>(null)
+
+  const loadTraces = useCallback(async () => {
+    try {
+      setTraces(await fetchAgentTraces(userId))
+    } catch (error) {
+      console.error('Failed to load traces:', error)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId) return
+    loadTraces()
+    const interval = setInterval(loadTraces, TRACE_REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [userId, loadTraces])
+
+  const handleClear = async () => {
+    try {
+      await clearAgentTraces(userId)
+      setTraces([])
+      showToast('Traces cleared', 'success')
+    } catch (error) {
+      console.error('Failed to clear traces:', error)
+      showToast('Failed to clear traces', 'error')
+    }
+  }
+
+  return (
+    <div className='w-full rounded-[20px] p-[16px] flex flex-col gap-2'
+      style={{ backgroundColor: 'var(--primary-foreground)' }}
+    >
+      <div className='flex items-center justify-between'>
+        <div className='text-[14px] font-semibold'
+          style={{ color: 'var(--secondary-foreground)' }}
+        >Agent Traces</div>
+        <button
+          className='text-[12px] font-medium'
+          style={{ color: 'var(--text-secondary)' }}
+          onClick={handleClear}
+        >
+          Clear
+        </button>
+      </div>
+      <div
+        className='rounded-[12px] p-[12px] max-h-[400px] overflow-y-auto flex flex-col gap-2'
+        style={{
+          backgroundColor: 'var(--background)',
+          color: 'var(--secondary-foreground)',
+        }}
+      >
+        {traces.length === 0 ? (
+          <div className='text-[14px] italic'
+            style={{ color: 'var(--text-secondary)', opacity: 0.6 }}
+          >
+            No queries traced yet...
+          </div>
+        ) : traces.map((trace) => (
+          <div
+            key={trace.id}
+            className='rounded-[8px] p-[8px] border cursor-pointer'
+            style={{ borderColor: 'rgba(128, 128, 128, 0.3)' }}
+            onClick={() => setExpandedTraceId(expandedTraceId === trace.id ? null : trace.id)}
+          >
+            <div className='flex items-center justify-between gap-2'>
+              <div className='text-[12px] font-medium truncate'>{trace.query || '(empty query)'}</div>
+              <div className='text-[10px] whitespace-nowrap' style={{ color: statusColors[trace.status] }}>
+                ● {trace.durationMs !== undefined ? `${trace.durationMs}ms` : trace.status}
+              </div>
+            </div>
+            <div className='text-[10px]' style={{ color: 'var(--text-secondary)', opacity: 0.8 }}>
+              {new Date(trace.startedAt).toLocaleTimeString()}
+              {trace.responseMode && ` · ${trace.responseMode}`}
+              {trace.promptVariant && ` · ${trace.promptVariant}`}
+              {` · ${trace.llmTurns.length} LLM turn${trace.llmTurns.length === 1 ? '' : 's'}`}
+              {` · ${trace.toolCalls.length} tool call${trace.toolCalls.length === 1 ? '' : 's'}`}
+            </div>
+
+            {expandedTraceId === trace.id && (
+              <div className='mt-2 flex flex-col gap-1 text-[10px] whitespace-pre-wrap break-words'>
+                {trace.prompt && (
+                  <div>Prompt: {trace.prompt.characters} chars (~{trace.prompt.estimatedTokens} tokens), {trace.prompt.historyTurns} history turns{trace.hasPhoto ? ', photo' : ''}{trace.previousPhotoCount > 0 ? `, ${trace.previousPhotoCount} previous photos` : ''}</div>
+                )}
+                {trace.wordLimit && (
+                  <div style={{ color: '#F59E0B' }}>Word limit: {trace.wordLimit.words}/{trace.wordLimit.limit} words, {trace.wordLimit.action}</div>
+                )}
+                {trace.llmTurns.map((turn) => (
+                  <div key={`llm-${turn.turn}`}>
+                    LLM turn {turn.turn}: {turn.latencyMs}ms{turn.streamed ? ' (streamed)' : ''}{turn.toolCalls.length > 0 ? ` → ${turn.toolCalls.join(', ')}` : ''}
+                  </div>
+                ))}
+                {trace.toolCalls.map((toolCall, index) => (
+                  <div key={`tool-${index}`} style={{ color: toolCall.status === 'success' ? undefined : '#EF4444' }}>
+                    [{toolCall.turn}] {toolCall.name} ({toolCall.status}, {toolCall.latencyMs}ms) {toolCall.args} → {toolCall.result}
+                  </div>
+                ))}
+                {trace.disambiguation.map((entry, index) => (
+                  <div key={`disambiguation-${index}`}>
+                    Disambiguation ({entry.stage}): {entry.detected ? entry.candidates.join(', ') || 'yes' : 'no'}
+                  </div>
+                ))}
+                {trace.finalAnswer && <div className='font-medium'>Answer: {trace.finalAnswer}</div>}
+                {trace.error && <div style={{ color: '#EF4444' }}>Error: {trace.error}</div>}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default TracesSetting
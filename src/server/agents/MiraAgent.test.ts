@@ -0,0 +1,156 @@
+/**
+ * MiraAgent against the mock LLM provider: each fixture in fixtures/mock-llm
+ * scripts one agent run, fully offline.
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import axios from 'axios';
+import { join } from 'path';
+
+// Read when llm.manager is first imported, so set it before loading the agent
+process.env.LLM_PROVIDER = 'mock';
+
+const { MiraAgent } = await import('./MiraAgent');
+const { LLMProvider, LLMService } = await import('../manager/llm.manager');
+const { loadMockLLMFixture, getMockLLMCalls, resetMockLLM } = await import('../utils/mock-llm.util');
+
+const FIXTURES_DIR = join(import.meta.dir, '../fixtures/mock-llm');
+const CLOUD_URL = 'http://cloud.test';
+
+// What the cloud's system-app API returns for the test user
+const INSTALLED_APPS = [
+  { packageName: 'com.mentra.notes', name: 'Mentra Notes' },
+  { packageName: 'com.mentra.notes.beta', name: 'Mentra Notes Beta' },
+];
+
+// URLs the agent requested, so a test can check which app action it took
+let requestedUrls: string[] = [];
+
+/**
+ * Answer the app list and app start/stop requests; anything else fails the test
+ * instead of reaching the network.
+ */
+function stubNetwork() {
+  const getSpy = spyOn(axios, 'get').mockImplementation(async (url: string): Promise<any> => {
+    requestedUrls.push(url);
+    if (url.startsWith(`${CLOUD_URL}/api/sdk/system-app/apps?`)) {
+      return { status: 200, data: { success: true, data: INSTALLED_APPS } };
+    }
+    throw new Error(`Unexpected GET ${url}`);
+  });
+  const postSpy = spyOn(axios, 'post').mockImplementation(async (url: string): Promise<any> => {
+    requestedUrls.push(url);
+    if (/\/api\/sdk\/system-app\/[^/]+\/(start|stop)\?/.test(url)) {
+      return { status: 200, data: { success: true } };
+    }
+    throw new Error(`Unexpected POST ${url}`);
+  });
+  const fetchSpy = spyOn(globalThis, 'fetch').mockRejectedValue(new Error('Unexpected fetch'));
+  return () => {
+    getSpy.mockRestore();
+    postSpy.mockRestore();
+    fetchSpy.mockRestore();
+  };
+}
+
+/**
+ * Run one query through a fresh agent with the fixture loaded
+ */
+async function runFixture(fixture: string, query: string) {
+  loadMockLLMFixture(join(FIXTURES_DIR, `${fixture}.json`));
+  const agent = new MiraAgent(CLOUD_URL, `test-user-${fixture}`);
+  const response = await agent.handleContext({ query, originalQuery: query, photo: null });
+  return { agent, response };
+}
+
+/**
+ * Calls made by the agent loop (tools bound), leaving out classifier and summary calls
+ */
+function agentCalls() {
+  return getMockLLMCalls().filter(call => call.tools.length > 0);
+}
+
+/**
+ * Names of the tools the agent's calls asked for, in order
+ */
+function calledTools(): string[] {
+  return agentCalls().flatMap(call => (call.response?.tool_calls || []).map(toolCall => toolCall.name));
+}
+
+describe('MiraAgent with the mock LLM', () => {
+  let restoreNetwork: () => void;
+
+  beforeAll(() => {
+    restoreNetwork = stubNetwork();
+  });
+
+  afterAll(() => {
+    restoreNetwork();
+  });
+
+  afterEach(() => {
+    resetMockLLM();
+    requestedUrls = [];
+  });
+
+  test('the mock provider is never combined with other providers', () => {
+    expect(LLMProvider.getProviderChain()).toEqual([LLMService.MOCK]);
+  });
+
+  test('direct-answer: answers in one Respond turn', async () => {
+    const { response } = await runFixture('direct-answer', 'What is the capital of France?');
+
+    expect(response.answer).toBe('Paris is the capital of France.');
+    expect(agentCalls()).toHaveLength(1);
+    expect(calledTools()).toEqual(['Respond']);
+    expect(agentCalls()[0].tools).toContain('Respond');
+  });
+
+  test('tool-loop: thinks, uses the calculator, then answers', async () => {
+    const { response } = await runFixture('tool-loop', 'What is 12 times 7?');
+
+    expect(response.answer).toBe('12 times 7 is 84.');
+    expect(calledTools()).toEqual(['Internal_Thinking', 'calculator', 'Respond']);
+
+    // The calculator result is sent back to the model before it answers
+    const lastMessages = agentCalls()[2].messages;
+    const toolResults = lastMessages.filter(message => message._getType() === 'tool').map(message => message.content.toString());
+    expect(toolResults).toContain('84');
+  });
+
+  test('max-turns: the turn-limit reminder makes the agent answer', async () => {
+    const { response } = await runFixture('max-turns', 'Find my lost keys');
+
+    expect(response.answer).toBe("Sorry, I couldn't find that.");
+    const tools = calledTools();
+    expect(tools[tools.length - 1]).toBe('Respond');
+    expect(tools.slice(0, -1).every(name => name === 'Internal_Thinking')).toBe(true);
+
+    // Only the call that saw the reminder got the Respond response
+    const respondCall = agentCalls()[agentCalls().length - 1];
+    expect(respondCall.response?.match).toBe('REMINDER: You have 2 turns left');
+    expect(agentCalls().slice(0, -1).some(call => call.response?.match)).toBe(false);
+  });
+
+  test('disambiguation: asks which app, then opens the one the user picks', async () => {
+    const { agent, response } = await runFixture('disambiguation', 'Open Mentra Notes');
+
+    expect(response.answer).toBe("I found multiple apps with similar names. Which one would you like: 'Mentra Notes' or 'Mentra Notes Beta'?");
+    expect(response.followUpExpected).toBe(true);
+    expect(calledTools()).toEqual(['Respond']);
+
+    // The detector's call (no tools) recognised the question and the candidates were looked up
+    const detectionCall = getMockLLMCalls().find(call => call.response?.match === 'disambiguation');
+    expect(detectionCall?.tools).toEqual([]);
+    expect(agent.hasPendingDisambiguation()).toBe(true);
+
+    // The reply is matched to a candidate and the app is started without another agent run
+    const callsBefore = getMockLLMCalls().length;
+    const reply = await agent.handleContext({ query: 'Mentra Notes Beta', originalQuery: 'Mentra Notes Beta', photo: null });
+
+    expect(reply.answer).toBe('Successfully started app com.mentra.notes.beta');
+    expect(requestedUrls.some(url => url.startsWith(`${CLOUD_URL}/api/sdk/system-app/com.mentra.notes.beta/start?`))).toBe(true);
+    expect(getMockLLMCalls()).toHaveLength(callsBefore);
+    expect(agent.hasPendingDisambiguation()).toBe(false);
+  });
+});
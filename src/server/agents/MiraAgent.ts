@@ -12,50 +12,117 @@ export interface Agent {
 import { AgentExecutor, createReactAgent } from "langchain/agents";
 import { SearchToolForAgents } from "./tools/SearchToolForAgents";
 import { PromptTemplate } from "@langchain/core/prompts";
-import { LLMProvider } from "../utils";
+import type { Runnable } from "@langchain/core/runnables";
+import { LLMProvider, LLM_STREAMING_ENABLED } from "../utils";
 import { wrapText } from "../utils";
-import { AIMessage, BaseMessage, HumanMessage, SystemMessage, ToolMessage } from "@langchain/core/messages";
+import { AIMessage, AIMessageChunk, BaseMessage, HumanMessage, SystemMessage, ToolMessage } from "@langchain/core/messages";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { Tool, StructuredTool } from "langchain/tools";
 import { TpaCommandsTool, TpaListAppsTool, TpaListAppsWithToolsTool } from "./tools/TpaCommandsTool";
 import { SmartAppControlTool } from "./tools/SmartAppControlTool";
 import { TpaToolInvokeTool } from "./tools/TpaToolInvokeTool";
 import { ThinkingTool } from "./tools/ThinkingTool";
+import { RememberFactTool, ForgetFactTool } from "./tools/MemoryTool";
+import { RespondTool, RESPOND_TOOL_NAME, AgentAnswer, parseRespondArgs, toAgentAnswer } from "./tools/RespondTool";
 import { Calculator } from "@langchain/community/tools/calculator";
 import { AppServer, PhotoData, GIVE_APP_CONTROL_OF_TOOL_RESPONSE, logger as _logger } from "@mentra/sdk";
 import { Time } from "../manager/time.manager";
 import type { Logger } from "pino";
 import {
   ResponseMode,
-  CAMERA_RESPONSE_CONFIGS,
-  DISPLAY_RESPONSE_CONFIGS,
   MAX_CONVERSATION_HISTORY,
   MAX_CONVERSATION_AGE_MS,
+  CONVERSATION_HISTORY_TOKEN_BUDGET,
+  MIN_RAW_HISTORY_TURNS,
+  CONVERSATION_SUMMARY_MAX_AGE_MS,
   MAX_TOOL_TURNS,
   buildUnifiedPrompt,
   PERSONALITY_INSTRUCTIONS,
   PersonalityType,
+  PERSONALITY_TYPES,
+  RESPONSE_MODE_OVERRIDE_TURNS,
+  RESPONSE_MODE_OVERRIDE_MAX_AGE_MS,
 } from "../constant/unifiedPrompt";
 import { getDisambiguationDetector, DisambiguationCandidate } from "../utils/disambiguation-detector.util";
+import { memoryManager } from "../manager/memory.manager";
+import { hedgeManager } from "../manager/hedge.manager";
+import { traceManager, QueryTrace } from "../manager/trace.manager";
+import { usageManager, QUOTA_EXCEEDED_MESSAGE } from "../manager/usage.manager";
+import { wordLimitManager, countWords } from "../manager/word-limit.manager";
+import { QueryComplexityClassifier, getComplexityClassifier, detectResponseModeOverride } from "../utils/query-complexity.util";
+import { summarizeConversation, estimateTokens } from "../utils/conversation-summarizer.util";
+import { executeToolCalls } from "../utils/tool-executor.util";
+import { UserSettings } from "../schemas";
+import { isDatabaseConnected } from "../utils/db.util";
+import { getModelDefinition } from "../constant/models";
+import { PromptVariant, assignPromptVariant } from "../constant/promptVariants";
+import { sanitizeCustomInstructions } from "../utils/custom-instructions.util";
+import { DEFAULT_LOCALE, getLanguageName } from "../utils/language.util";
+import { DeviceProfile, DEFAULT_DEVICE_PROFILE } from "../constant/deviceProfiles";
+
+// A chat model with the agent's tools bound
+type ToolBoundLLM = Runnable<BaseMessage[], AIMessageChunk>;
 
 interface QuestionAnswer {
     insight: string;
 }
 
-interface ConversationTurn {
+export interface ConversationTurn {
   query: string;
   response: string;
   timestamp: number;
   hadImage?: boolean;
 }
 
-interface PendingDisambiguation {
+export interface PendingDisambiguation {
   originalRequest: string;  // e.g., "open Mentra Notes"
   candidates: Array<{ packageName: string; name: string; description?: string }>;
   action: 'start' | 'stop';
   timestamp: number;
 }
 
+export interface LocationContext {
+  city: string;
+  state: string;
+  country: string;
+  lat: number | null;
+  lng: number | null;
+  streetAddress?: string;
+  neighborhood?: string;
+  timezone: {
+    name: string;
+    shortName: string;
+    fullName: string;
+    offsetSec: number;
+    isDst: boolean;
+  };
+  weather?: {
+    temperature: number;
+    temperatureCelsius: number;
+    condition: string;
+    humidity?: number;
+    wind?: string;
+  };
+}
+
+export interface PreviousPhoto {
+  photo: PhotoData;
+  query: string;
+  timestamp: number;
+}
+
+/**
+ * Serializable agent state, persisted across reconnects (see AgentStateManager)
+ */
+export interface AgentStateSnapshot {
+  conversationHistory: ConversationTurn[];
+  conversationSummary: string;
+  conversationSummaryUpdatedAt: number;
+  pendingDisambiguation: PendingDisambiguation | null;
+  locationContext: LocationContext;
+  responseModeOverride: { mode: ResponseMode; remainingTurns: number; timestamp: number } | null;
+}
+
 export class MiraAgent implements Agent {
   public agentId = "mira_agent";
   public agentName = "MiraAgent";
@@ -65,36 +132,32 @@ export class MiraAgent implements Agent {
   public agentTools:(Tool | StructuredTool)[];
   private userId: string;
   private personality: PersonalityType = 'default';
+  // Display names from the model registry (UserSettings.textModel / visionModel), only if the user picked one
+  private textModel: string | null = null;
+  private visionModel: string | null = null;
+  // Prompt experiment variant (UserSettings.promptVariant override, else userId cohort)
+  private promptVariant: PromptVariant;
+  // UserSettings.customInstructions, sanitized
+  private customInstructions = '';
   private logger: Logger;
   private time: Time | null = null;
 
   public messages: BaseMessage[] = [];
   private conversationHistory: ConversationTurn[] = [];
+  // Rolling summary of turns evicted from conversationHistory
+  private conversationSummary: string = '';
+  private conversationSummaryUpdatedAt: number = 0;
+  private summaryUpdate: Promise<void> = Promise.resolve();
   private pendingDisambiguation: PendingDisambiguation | null = null;
 
-  private locationContext: {
-    city: string;
-    state: string;
-    country: string;
-    lat: number | null;
-    lng: number | null;
-    streetAddress?: string;
-    neighborhood?: string;
-    timezone: {
-      name: string;
-      shortName: string;
-      fullName: string;
-      offsetSec: number;
-      isDst: boolean;
-    };
-    weather?: {
-      temperature: number;
-      temperatureCelsius: number;
-      condition: string;
-      humidity?: number;
-      wind?: string;
-    };
-  } = {
+  // Sliding window of photos from previous queries (not including the current one).
+  // Kept on the agent so it survives a reconnect within the grace period; never persisted to the DB.
+  private static readonly MAX_PREVIOUS_PHOTOS = 2;
+  private previousPhotos: PreviousPhoto[] = [];
+  private complexityClassifier: QueryComplexityClassifier = getComplexityClassifier();
+  private responseModeOverride: { mode: ResponseMode; remainingTurns: number; timestamp: number } | null = null;
+
+  private locationContext: LocationContext = {
     city: 'Unknown',
     state: 'Unknown',
     country: 'Unknown',
@@ -115,6 +178,7 @@ export class MiraAgent implements Agent {
   constructor(cloudUrl: string, userId: string, logger?: Logger) {
     this.userId = userId;
     this.logger = logger || _logger.child({ service: 'MiraAgent' });
+    this.promptVariant = assignPromptVariant(userId);
 
     this.agentTools = [
       new SearchToolForAgents(),
@@ -127,13 +191,20 @@ export class MiraAgent implements Agent {
       // Tool to invoke TPA tools (e.g., add_reminder, take_note on Mentra Notes)
       new TpaToolInvokeTool(cloudUrl, userId),
 
+      // Long-term memory that persists across days and sessions
+      new RememberFactTool(userId),
+      new ForgetFactTool(userId),
+
       new ThinkingTool(),
       new Calculator(),
+
+      // Structured final answer — ends the agent loop
+      new RespondTool(),
     ];
 
     // Timezone is now set via setTime() from the SDK's userTimezone setting
 
-    // Load user personality asynchronously
+    // Load user personality asynchronously (refreshed via setPersonality when the user changes it)
     this.loadUserPersonality();
   }
 
@@ -149,10 +220,51 @@ export class MiraAgent implements Agent {
    * This runs asynchronously during initialization
    */
   private async loadUserPersonality(): Promise<void> {
-    this.personality = 'default';
+    if (!isDatabaseConnected()) {
+      return;
+    }
+
+    try {
+      const settings = await UserSettings.findOne({ userId: this.userId }).select('personality').lean();
+      this.setPersonality(settings?.personality);
+    } catch (error) {
+      console.warn(`[MiraAgent] Failed to load personality, keeping ${this.personality}:`, error);
+    }
+  }
+
+  /**
+   * Switch the personality used for the next answers (unknown values fall back to default)
+   */
+  public setPersonality(personality: string | undefined | null): void {
+    this.personality = PERSONALITY_TYPES.includes(personality as PersonalityType) ? personality as PersonalityType : 'default';
     console.log(`[MiraAgent] ✅ Personality: ${this.personality}`);
   }
 
+  /**
+   * Load the user's text and vision model choices, custom instructions and prompt variant override from the database.
+   * Unknown or incapable models fall back to the defaults.
+   */
+  private async loadUserSettings(): Promise<void> {
+    if (!isDatabaseConnected()) {
+      return;
+    }
+
+    try {
+      const settings = await UserSettings.findOne({ userId: this.userId })
+        .select('textModel visionModel textModelChosen visionModelChosen promptVariant customInstructions')
+        .lean();
+      this.promptVariant = assignPromptVariant(this.userId, settings?.promptVariant);
+      this.customInstructions = sanitizeCustomInstructions(settings?.customInstructions);
+      // Users who never picked a model stay on the operator's provider chain
+      const textModel = settings?.textModelChosen ? getModelDefinition(settings.textModel) : undefined;
+      const visionModel = settings?.visionModelChosen ? getModelDefinition(settings.visionModel) : undefined;
+      this.textModel = textModel?.capabilities.tools ? textModel.name : null;
+      this.visionModel = visionModel?.capabilities.vision && visionModel.capabilities.tools ? visionModel.name : null;
+    } catch (error) {
+      console.warn(`[MiraAgent] Failed to load model settings, using the provider chain:`, error);
+    }
+  }
+
   /**
    * Add a conversation turn to history
    */
@@ -168,36 +280,87 @@ export class MiraAgent implements Agent {
   }
 
   /**
-   * Clean up old conversation history based on age and count limits
+   * Evict old turns from the raw history based on age, token budget and count limits.
+   * Evicted turns are folded into the rolling summary instead of being dropped.
    */
   private cleanupConversationHistory(): void {
     const now = Date.now();
+    const evicted: ConversationTurn[] = [];
 
-    // Remove conversations older than MAX_CONVERSATION_AGE_MS
-    this.conversationHistory = this.conversationHistory.filter(
-      turn => now - turn.timestamp < MAX_CONVERSATION_AGE_MS
-    );
+    // Evict conversations older than MAX_CONVERSATION_AGE_MS
+    while (this.conversationHistory.length > 0 && now - this.conversationHistory[0].timestamp >= MAX_CONVERSATION_AGE_MS) {
+      evicted.push(this.conversationHistory.shift()!);
+    }
+
+    // Evict the oldest turns until the raw history fits the token budget
+    let historyTokens = this.conversationHistory.reduce((sum, turn) => sum + this.estimateTurnTokens(turn), 0);
+    while (
+      this.conversationHistory.length > MIN_RAW_HISTORY_TURNS &&
+      (historyTokens > CONVERSATION_HISTORY_TOKEN_BUDGET || this.conversationHistory.length > MAX_CONVERSATION_HISTORY)
+    ) {
+      const turn = this.conversationHistory.shift()!;
+      historyTokens -= this.estimateTurnTokens(turn);
+      evicted.push(turn);
+    }
+
+    // Drop a stale summary so day-old context doesn't leak into new conversations
+    if (this.conversationSummary && now - this.conversationSummaryUpdatedAt >= CONVERSATION_SUMMARY_MAX_AGE_MS) {
+      this.conversationSummary = '';
+    }
 
-    // Keep only the last MAX_CONVERSATION_HISTORY turns
-    if (this.conversationHistory.length > MAX_CONVERSATION_HISTORY) {
-      this.conversationHistory = this.conversationHistory.slice(-MAX_CONVERSATION_HISTORY);
+    if (evicted.length > 0) {
+      this.foldIntoSummary(evicted);
     }
   }
 
   /**
-   * Format conversation history for context in prompts
+   * Estimate how many prompt tokens a turn uses once formatted
+   */
+  private estimateTurnTokens(turn: ConversationTurn): number {
+    return estimateTokens(`User: ${turn.query}\nMentra AI: ${turn.response}`) + 4;
+  }
+
+  /**
+   * Fold evicted turns into the rolling summary in the background.
+   * Updates are chained so turns are summarized in order.
+   */
+  private foldIntoSummary(turns: ConversationTurn[]): void {
+    this.summaryUpdate = this.summaryUpdate
+      .then(async () => {
+        this.conversationSummary = await summarizeConversation(this.conversationSummary, turns, this.userId);
+        this.conversationSummaryUpdatedAt = Date.now();
+        console.log(`📚 [ConversationSummary] Folded ${turns.length} turn(s) into summary (${estimateTokens(this.conversationSummary)} tokens)`);
+      })
+      .catch((error) => {
+        console.error(`📚 [ConversationSummary] Error updating summary:`, error);
+      });
+  }
+
+  /**
+   * Format conversation history for context in prompts:
+   * the rolling summary of older turns followed by the recent turns verbatim
    */
   private formatConversationHistory(): string {
-    if (this.conversationHistory.length === 0) {
+    this.cleanupConversationHistory();
+
+    if (this.conversationHistory.length === 0 && !this.conversationSummary) {
       return '';
     }
 
-    const historyText = this.conversationHistory
-      .map((turn, idx) => {
-        return `[${idx + 1}] User: ${turn.query}\nMentra AI: ${turn.response}`;
-      })
-      .join('\n\n');
-    return `\nRecent conversation history:\n${historyText}\n`;
+    let text = '';
+    if (this.conversationSummary) {
+      text += `\nSummary of earlier conversation:\n${this.conversationSummary}\n`;
+    }
+
+    if (this.conversationHistory.length > 0) {
+      const historyText = this.conversationHistory
+        .map((turn, idx) => {
+          return `[${idx + 1}] User: ${turn.query}\nMentra AI: ${turn.response}`;
+        })
+        .join('\n\n');
+      text += `\nRecent conversation history:\n${historyText}\n`;
+    }
+    return text;
   }
 
   /**
@@ -205,6 +368,65 @@ export class MiraAgent implements Agent {
    */
   public clearConversationHistory(): void {
     this.conversationHistory = [];
+    this.conversationSummary = '';
+    this.conversationSummaryUpdatedAt = 0;
+  }
+
+  /**
+   * Get photos from previous queries (oldest first)
+   */
+  public getPreviousPhotos(): PreviousPhoto[] {
+    return [...this.previousPhotos];
+  }
+
+  /**
+   * Save the current query's photo so later queries can reference it
+   */
+  public addPreviousPhoto(photo: PhotoData, query: string): void {
+    this.previousPhotos.push({ photo, query, timestamp: Date.now() });
+    if (this.previousPhotos.length > MiraAgent.MAX_PREVIOUS_PHOTOS) {
+      this.previousPhotos.shift();
+    }
+  }
+
+  /**
+   * Export the agent's conversational state so it can be persisted across reconnects.
+   * Waits for any summary update in flight: its turns have left the history but aren't in the summary yet.
+   */
+  public async exportState(): Promise<AgentStateSnapshot> {
+    await this.summaryUpdate;
+    return {
+      conversationHistory: [...this.conversationHistory],
+      conversationSummary: this.conversationSummary,
+      conversationSummaryUpdatedAt: this.conversationSummaryUpdatedAt,
+      pendingDisambiguation: this.pendingDisambiguation,
+      locationContext: this.locationContext,
+      responseModeOverride: this.responseModeOverride,
+    };
+  }
+
+  /**
+   * Restore state previously produced by exportState (e.g. after a reconnect or server restart)
+   */
+  public restoreState(snapshot: Partial<AgentStateSnapshot>): void {
+    if (Array.isArray(snapshot.conversationHistory)) {
+      this.conversationHistory = snapshot.conversationHistory;
+      this.cleanupConversationHistory();
+    }
+    if (typeof snapshot.conversationSummary === 'string') {
+      this.conversationSummary = snapshot.conversationSummary;
+      this.conversationSummaryUpdatedAt = snapshot.conversationSummaryUpdatedAt || Date.now();
+    }
+    if (snapshot.pendingDisambiguation !== undefined) {
+      this.pendingDisambiguation = snapshot.pendingDisambiguation;
+    }
+    if (snapshot.locationContext) {
+      this.locationContext = { ...this.locationContext, ...snapshot.locationContext };
+    }
+    if (snapshot.responseModeOverride !== undefined) {
+      this.responseModeOverride = snapshot.responseModeOverride;
+    }
+    console.log(`📚 [AgentState] Restored ${this.conversationHistory.length} turns for user ${this.userId}`);
   }
 
   /**
@@ -383,18 +605,27 @@ export class MiraAgent implements Agent {
   /**
    * AI-powered detection of disambiguation responses
    * Uses an LLM to intelligently detect if a response is asking the user to choose between options
-   * and extracts the candidate names
+   * and extracts the candidate names. Returns whether the response is a disambiguation.
    */
-  private async detectAndStoreDisambiguationAI(response: string, originalQuery: string): Promise<void> {
+  private async detectAndStoreDisambiguationAI(response: string, originalQuery: string, trace?: QueryTrace): Promise<boolean> {
     try {
       const detector = getDisambiguationDetector();
       const result = await detector.detectDisambiguation(response);
+      if (result.usage) {
+        usageManager.recordUsage(this.userId, 'disambiguation', result.usage);
+      }
 
       console.log(`📋 [Disambiguation AI] isDisambiguation: ${result.isDisambiguation}, reasoning: ${result.reasoning}`);
+      trace?.recordDisambiguation({
+        stage: 'detection',
+        detected: result.isDisambiguation,
+        candidates: result.candidates.map(c => c.name),
+        details: result.reasoning,
+      });
 
       if (!result.isDisambiguation || result.candidates.length < 2) {
         console.log(`📋 [Disambiguation AI] Not a disambiguation response or insufficient candidates`);
-        return;
+        return false;
       }
 
       console.log(`📋 [Disambiguation AI] Detected ${result.candidates.length} candidates: ${result.candidates.map(c => c.name).join(', ')}`);
@@ -415,9 +646,11 @@ export class MiraAgent implements Agent {
 
       // Look up package names and store disambiguation
       await this.setPendingDisambiguationWithLookup(originalQuery, candidates, action);
+      return true;
     } catch (error) {
       console.error(`📋 [Disambiguation AI] Error detecting disambiguation:`, error);
       // Silently fail - worst case is disambiguation isn't stored and user has to be more explicit
+      return false;
     }
   }
 
@@ -565,6 +798,20 @@ export class MiraAgent implements Agent {
     this.addToConversationHistory(query, response);
   }
 
+  /**
+   * Drop the most recent turn if it belongs to this query (the query was cancelled after the agent answered),
+   * along with the disambiguation its answer left pending
+   */
+  public discardConversationTurn(query: string): void {
+    const lastTurn = this.conversationHistory[this.conversationHistory.length - 1];
+    if (lastTurn?.query === query) {
+      this.conversationHistory.pop();
+    }
+    if (this.pendingDisambiguation?.originalRequest === query) {
+      this.clearPendingDisambiguation();
+    }
+  }
+
   /**
    * Get information about available tools for the AppToolQueryDecider
    * Returns tool name, description, and activation phrases
@@ -598,82 +845,54 @@ export class MiraAgent implements Agent {
       'TPA_ListApps',
       'TPA_Commands',
       'TPA_InvokeTool',  // For invoking TPA tools like add_reminder, take_note
+      'Remember_Fact',
+      'Forget_Fact',
       'Internal_Thinking',
-      'calculator'  // LangChain Calculator
+      'calculator',  // LangChain Calculator
+      RESPOND_TOOL_NAME
     ];
     return this.agentTools.filter(tool => builtInToolNames.includes(tool.name));
   }
 
   /**
-   * Classifies query complexity to determine appropriate response mode
-   * Uses heuristics and pattern matching for fast classification
+   * Replace the query complexity classifier (e.g. with a keyword or local-model classifier)
+   */
+  public setComplexityClassifier(classifier: QueryComplexityClassifier): void {
+    this.complexityClassifier = classifier;
+  }
+
+  /**
+   * Picks the response mode for a query.
+   * Order: spoken override ("short answer", "give me the long version") → classifier.
+   * A spoken override also applies to the follow-up turn. Display glasses use the same modes;
+   * their longer answers are paginated on the display.
    *
    * @param query - The user's query text
-   * @param forceQuick - If true, always return QUICK mode (used for display glasses with limited screen space)
+   * @param signal - The query's cancellation signal
    */
-  private classifyQueryComplexity(query: string, forceQuick: boolean = false): ResponseMode {
-    // For display glasses with limited screen space, always use QUICK mode
-    if (forceQuick) {
-      console.log(`[Complexity] QUICK mode FORCED for display glasses`);
-      return ResponseMode.QUICK;
-    }
-
-    const lowerQuery = query.toLowerCase();
-
-    // Keywords indicating need for detailed responses
-    const detailedKeywords = [
-      'explain', 'how does', 'how do', 'why does', 'why do', 'why is', 'why are',
-      'what is the difference', 'compare', 'contrast', 'tell me about',
-      'describe', 'elaborate', 'in detail', 'comprehensive', 'understand',
-      'breakdown', 'walk me through', 'teach me', 'help me understand',
-      'what are the implications', 'analyze', 'evaluation', 'pros and cons',
-      'advantages and disadvantages', 'tell me more', 'give me details',
-      'solve', 'equation', 'calculate', 'compute', 'formula', 'math',
-    ];
-
-    // Keywords for standard responses (moderate complexity)
-    const standardKeywords = [
-      'how to', 'what are', 'which', 'where can', 'when should',
-      'recommend', 'suggest', 'best way', 'options for', 'ways to',
-      'process of', 'steps to', 'guide', 'tutorial', 'instructions',
-      'should i', 'should we', 'what should',
-      'recite', 'list the', 'list all', 'name the', 'name all',
-      'what is the full', 'give me the', 'sing', 'quote',
-    ];
-
-    // Check for detailed response triggers
-    for (const keyword of detailedKeywords) {
-      if (lowerQuery.includes(keyword)) {
-        console.log(`[Complexity] DETAILED mode triggered by keyword: "${keyword}"`);
-        return ResponseMode.DETAILED;
-      }
+  private async resolveResponseMode(query: string, signal?: AbortSignal): Promise<ResponseMode> {
+    const spokenOverride = detectResponseModeOverride(query);
+    if (spokenOverride) {
+      this.responseModeOverride = {
+        mode: spokenOverride,
+        remainingTurns: RESPONSE_MODE_OVERRIDE_TURNS,
+        timestamp: Date.now(),
+      };
+      console.log(`[Complexity] Spoken override → ${spokenOverride.toUpperCase()} for ${RESPONSE_MODE_OVERRIDE_TURNS} turns`);
     }
 
-    // Check for standard response triggers
-    for (const keyword of standardKeywords) {
-      if (lowerQuery.includes(keyword)) {
-        console.log(`[Complexity] STANDARD mode triggered by keyword: "${keyword}"`);
-        return ResponseMode.STANDARD;
+    const override = this.responseModeOverride;
+    if (override && Date.now() - override.timestamp < RESPONSE_MODE_OVERRIDE_MAX_AGE_MS) {
+      override.remainingTurns--;
+      if (override.remainingTurns <= 0) {
+        this.responseModeOverride = null;
       }
+      console.log(`[Complexity] ${override.mode.toUpperCase()} mode from spoken override`);
+      return override.mode;
     }
+    this.responseModeOverride = null;
 
-    // Check query length (longer queries often need more detailed responses)
-    const wordCount = query.trim().split(/\s+/).length;
-    if (wordCount > 15) {
-      console.log(`[Complexity] STANDARD mode triggered by word count: ${wordCount}`);
-      return ResponseMode.STANDARD;
-    }
-
-    // Check for question marks indicating complex questions
-    const questionMarks = (query.match(/\?/g) || []).length;
-    if (questionMarks > 1) {
-      console.log(`[Complexity] STANDARD mode triggered by multiple questions: ${questionMarks}`);
-      return ResponseMode.STANDARD;
-    }
-
-    // Default to quick mode for simple queries
-    console.log(`[Complexity] QUICK mode (default) for query`);
-    return ResponseMode.QUICK;
+    return this.complexityClassifier.classify(query, this.userId, signal);
   }
 
   /**
@@ -747,7 +966,6 @@ export class MiraAgent implements Agent {
     }
 
     // Use a simple, fast LLM to detect if this is a follow-up query
-    const llm = LLMProvider.getLLM();
 
     const detectionPrompt = `You are analyzing whether a user's current query is a follow-up to their previous conversation.
 
@@ -775,7 +993,8 @@ NOT a follow-up (answer NO):
 Answer with ONLY "YES" if it's a follow-up that needs context from the previous conversation, or "NO" if it's an independent query (including current state queries).`;
 
     try {
-      const result = await llm.invoke([new HumanMessage(detectionPrompt)]);
+      const result = await LLMProvider.withFallback(300, (llm) => llm.invoke([new HumanMessage(detectionPrompt)]));
+      usageManager.recordMessageUsage(this.userId, 'follow_up_detection', result);
       const answer = result.content.toString().trim().toUpperCase();
       return answer.includes('YES');
     } catch (error) {
@@ -940,6 +1159,82 @@ Answer with ONLY "YES" if it's a follow-up that needs context from the previous
     return { answer, needsCamera };
   }
 
+  /**
+   * Reads the (possibly incomplete) value of a string field from a partial JSON document.
+   * Used to surface the "answer" argument of a Respond tool call while it is still streaming.
+   */
+  private extractPartialJsonString(json: string, key: string): string {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(json);
+    if (!match) {
+      return '';
+    }
+
+    let value = '';
+    for (let i = match.index + match[0].length; i < json.length; i++) {
+      const char = json[i];
+      if (char === '"') {
+        break;
+      }
+      if (char === '\\') {
+        const next = json[i + 1];
+        if (next === undefined) {
+          break;
+        }
+        if (next === 'u') {
+          const hex = json.slice(i + 2, i + 6);
+          if (hex.length < 4) {
+            break;
+          }
+          value += String.fromCharCode(parseInt(hex, 16));
+          i += 5;
+          continue;
+        }
+        value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+        i++;
+        continue;
+      }
+      value += char;
+    }
+    return value;
+  }
+
+  /**
+   * Extracts the partial answer from a streaming LLM output.
+   * Prefers the "answer" argument of a streaming Respond tool call; otherwise falls back
+   * to the legacy "Final Answer:" marker. Any (partial) "Needs Camera:" suffix is held
+   * back so it never reaches the display.
+   */
+  private extractStreamingAnswer(message: AIMessageChunk): string {
+    const respondChunk = message.tool_call_chunks?.find(chunk => chunk.name === RESPOND_TOOL_NAME);
+    if (respondChunk?.args) {
+      return this.extractPartialJsonString(respondChunk.args, 'answer').trim();
+    }
+
+    const text = message.content.toString();
+    const finalMarker = "Final Answer:";
+    const cameraMarker = "Needs Camera:";
+
+    const markerIndex = text.indexOf(finalMarker);
+    if (markerIndex === -1) {
+      return '';
+    }
+
+    let answer = text.slice(markerIndex + finalMarker.length);
+    const cameraIndex = answer.indexOf(cameraMarker);
+    if (cameraIndex !== -1) {
+      answer = answer.slice(0, cameraIndex);
+    } else {
+      for (let len = cameraMarker.length - 1; len > 0; len--) {
+        if (answer.endsWith(cameraMarker.slice(0, len))) {
+          answer = answer.slice(0, -len);
+          break;
+        }
+      }
+    }
+
+    return answer.trim();
+  }
+
   /**
    * Runs the single-pass agent reasoning loop with image included in the user message.
    * The LLM sees the photo alongside the query and can use tools in the same pass.
@@ -951,16 +1246,19 @@ Answer with ONLY "YES" if it's a follow-up that needs context from the previous
     localtimeContext: string,
     photo: PhotoData | null,
     responseMode: ResponseMode = ResponseMode.QUICK,
-    hasDisplay: boolean = false,
+    deviceProfile: DeviceProfile = DEFAULT_DEVICE_PROFILE,
     previousPhotos: { photo: PhotoData; query: string; timestamp: number }[] = [],
-  ): Promise<{ answer: string; needsCamera: boolean }> {
-    const configSet = hasDisplay ? DISPLAY_RESPONSE_CONFIGS : CAMERA_RESPONSE_CONFIGS;
-    const config = configSet[responseMode];
-    // console.log(`[Response Mode] Using ${hasDisplay ? 'DISPLAY' : 'CAMERA'} ${responseMode.toUpperCase()} mode (${config.wordLimit} words, ${config.maxTokens} tokens)`);
+    onAnswerStream?: (partialAnswer: string) => void,
+    memoryContext: string = '',
+    trace?: QueryTrace,
+    signal?: AbortSignal,
+    locale: string = DEFAULT_LOCALE,
+  ): Promise<AgentAnswer> {
+    const config = deviceProfile.responseConfigs[responseMode];
+    // console.log(`[Response Mode] Using ${deviceProfile.id} ${responseMode.toUpperCase()} mode (${config.wordLimit} words, ${config.maxTokens} tokens)`);
 
     const toolsToUse = this.agentTools;
 
-    const llm = LLMProvider.getLLM(config.maxTokens).bindTools(toolsToUse);
     const toolNames = toolsToUse.map((tool) => tool.name + ": " + tool.description || "");
 
     const skipHistory = this.isCurrentStateQuery(query);
@@ -971,15 +1269,22 @@ Answer with ONLY "YES" if it's a follow-up that needs context from the previous
 
     const systemPrompt = buildUnifiedPrompt({
       personality: this.personality,
-      hasDisplay,
+      deviceProfile,
       responseMode,
       locationInfo,
       notificationsContext,
       localtimeContext,
       conversationHistoryText,
+      memoryContext,
       toolNames,
+      promptTemplate: this.promptVariant.template,
+      customInstructions: this.customInstructions,
+      language: getLanguageName(locale),
     });
 
+    trace?.setPrompt(systemPrompt, estimateTokens(systemPrompt), skipHistory ? 0 : this.conversationHistory.length);
+    trace?.setPhotos(!!photo, previousPhotos.length);
+
     // console.log(`\n[DEBUG] 🎭 System prompt (first 1500 chars):\n${systemPrompt.substring(0, 1500)}\n`);
     // console.log(`[DEBUG] 🎭 Personality type: ${this.personality}\n`);
     // console.log(`[DEBUG] 🎭 Response mode: ${responseMode} (${config.wordLimit} words)\n`);
@@ -1014,99 +1319,158 @@ Answer with ONLY "YES" if it's a follow-up that needs context from the previous
 
     messages.push(new HumanMessage({ content: humanMessageContent }));
 
-    // Race two identical LLM requests and use whichever responds first
-    const raceLLM = async (msgs: BaseMessage[]): Promise<AIMessage> => {
+    // Hedged LLM request: a second identical request is only sent if the first is slow,
+    // and whichever loses is aborted
+    const hedgedLLM = async (llm: ToolBoundLLM, msgs: BaseMessage[]): Promise<AIMessage> => {
       const msgsCopy = [...msgs];
-      const result = await Promise.race([
-        llm.invoke(msgsCopy),
-        llm.invoke(msgsCopy),
-      ]);
+      const result = await hedgeManager.invoke(this.userId, (attemptSignal) => llm.invoke(msgsCopy, { signal: attemptSignal }), undefined, signal);
       return result as AIMessage;
     };
 
+    // Stream a single LLM request, forwarding the answer text as soon as the
+    // "Final Answer:" marker shows up. Tool call chunks are merged into the final message.
+    // The time to the first chunk is hedged: if the stream is slow to start, a second
+    // identical stream is opened and whichever produces a chunk first is read to the end.
+    const streamLLM = async (llm: ToolBoundLLM, msgs: BaseMessage[]): Promise<AIMessage> => {
+      let accumulated: AIMessageChunk | null = null;
+      let lastEmitted = '';
+
+      const { iterator, first } = await hedgeManager.invoke(this.userId, async (attemptSignal) => {
+        // The winning stream outlives the hedge, so it also has to follow the query's signal
+        const streamSignal = signal ? AbortSignal.any([attemptSignal, signal]) : attemptSignal;
+        const iterator = (await llm.stream([...msgs], { signal: streamSignal }))[Symbol.asyncIterator]();
+        return { iterator, first: await iterator.next() };
+      }, undefined, signal);
+
+      for (let next = first; !next.done; next = await iterator.next()) {
+        const chunk = next.value;
+        accumulated = accumulated ? accumulated.concat(chunk) : chunk;
+
+        const partialAnswer = this.extractStreamingAnswer(accumulated);
+        if (partialAnswer && partialAnswer !== lastEmitted) {
+          lastEmitted = partialAnswer;
+          try {
+            onAnswerStream!(partialAnswer);
+          } catch (error) {
+            console.error(`[TextAgent] Error in answer stream callback:`, error);
+          }
+        }
+      }
+
+      if (!accumulated) {
+        throw new Error("LLM stream ended without any output");
+      }
+
+      return new AIMessage({
+        id: accumulated.id,
+        content: accumulated.content,
+        tool_calls: accumulated.tool_calls,
+        additional_kwargs: accumulated.additional_kwargs,
+        response_metadata: accumulated.response_metadata,
+        usage_metadata: accumulated.usage_metadata,
+      });
+    };
+
+    const shouldStream = LLM_STREAMING_ENABLED && !!onAnswerStream;
+
+    // Turns that carry images go to the user's vision model, text-only turns to their text model (if they picked one)
+    const modelName = photo || previousPhotos.length > 0 ? this.visionModel : this.textModel;
+    const preferredModel = getModelDefinition(modelName);
+
+    // Each turn goes to the user's model first (if its provider is in the chain), then the provider fallback chain;
+    // if a provider fails, the same turn is retried on the next one
+    let toolsBound = true;
+    const callLLM = async (msgs: BaseMessage[]): Promise<AIMessage> => {
+      const result = await LLMProvider.withFallback(config.maxTokens, async (model, provider) => {
+        // Models without tool support (some local ones) answer in plain text, which the loop accepts
+        toolsBound = await LLMProvider.supportsToolCalling(provider);
+        const llm = toolsBound ? model.bindTools(toolsToUse) : model;
+        return shouldStream ? streamLLM(llm, msgs) : hedgedLLM(llm, msgs);
+      }, signal, preferredModel);
+      usageManager.recordMessageUsage(this.userId, 'agent', result);
+      return result;
+    };
+
     let turns = 0;
     let output = "";
     while (turns < MAX_TOOL_TURNS) {
+      signal?.throwIfAborted();
       // console.log(`\n[Turn ${turns + 1}/${MAX_TOOL_TURNS}] 🤖 Invoking LLM in ${responseMode.toUpperCase()} mode...`);
-      const result: AIMessage = await raceLLM(messages);
+      const llmStartTime = Date.now();
+      const result: AIMessage = await callLLM(messages);
       messages.push(result);
 
       output = result.content.toString();
+      trace?.recordLLMTurn(turns + 1, Date.now() - llmStartTime, shouldStream, (result.tool_calls || []).map(call => call.name), output);
       // console.log(`[Turn ${turns + 1}/${MAX_TOOL_TURNS}] 📝 LLM output (first 500 chars):`, output.substring(0, 500));
       // console.log(`[Turn ${turns + 1}/${MAX_TOOL_TURNS}] 🔧 Tool calls requested:`, result.tool_calls?.length || 0);
 
+      let structuredAnswer: AgentAnswer | null = null;
       if (result.tool_calls) {
-        for (const toolCall of result.tool_calls) {
-          const selectedTool = toolsToUse.find(tool => tool.name === toolCall.name);
-          if (selectedTool) {
-            let toolInput: any;
-            if (selectedTool instanceof StructuredTool) {
-              toolInput = toolCall.args;
-            } else {
-              toolInput = JSON.stringify(toolCall.args);
-            }
-
-            let toolResult: any;
-            try {
-              toolResult = await selectedTool.invoke(toolInput, {
-                configurable: { runId: toolCall.id }
-              });
-              if (toolResult === GIVE_APP_CONTROL_OF_TOOL_RESPONSE) {
-                return { answer: "App control requested", needsCamera: false };
-              }
-            } catch (error) {
-              console.error(`[TextAgent] Error invoking tool ${toolCall.name}:`, error);
-              toolResult = `Error executing tool: ${error}`;
-            }
-
-            let toolMessage: ToolMessage;
-            if (toolResult instanceof ToolMessage) {
-              toolMessage = toolResult;
-            } else {
-              const content = typeof toolResult === 'string' ? toolResult : JSON.stringify(toolResult);
-              toolMessage = new ToolMessage({
-                content: content,
-                tool_call_id: toolCall.id || `fallback_${Date.now()}`,
-                name: toolCall.name
-              });
-            }
+        // The Respond tool ends the run with a validated, structured answer
+        for (const toolCall of result.tool_calls.filter(call => call.name === RESPOND_TOOL_NAME)) {
+          const parsed = parseRespondArgs(toolCall.args);
+          if (parsed.success) {
+            structuredAnswer = parsed.answer;
+          }
+          trace?.recordToolCall(turns + 1, toolCall.name, toolCall.args, parsed.success ? 'success' : 'error', parsed.success ? 'Response delivered.' : parsed.error, 0);
+          messages.push(new ToolMessage({
+            content: parsed.success
+              ? "Response delivered."
+              : `Invalid Respond arguments (${parsed.error}). Call Respond again with a non-empty "answer" string.`,
+            tool_call_id: toolCall.id || `fallback_${Date.now()}`,
+            name: toolCall.name,
+            ...(parsed.success ? {} : { status: "error" as const }),
+          }));
+        }
 
-            if (toolMessage.content == "" || toolMessage.content == null || toolMessage.id == null) {
-              toolMessage = new ToolMessage({
-                content: toolMessage.content || "Tool executed successfully but did not return any information.",
-                tool_call_id: toolMessage.id || toolCall.id || `fallback_${Date.now()}`,
-                name: toolCall.name
-              });
-            }
-            messages.push(toolMessage);
-          } else {
-            const unavailableToolMessage = new ToolMessage({
-              content: `Tool ${toolCall.name} unavailable`,
-              tool_call_id: toolCall.id || `unknown_${Date.now()}`,
-              status: "error"
-            });
-            messages.push(unavailableToolMessage);
+        // Run the remaining (independent) tool calls concurrently, each with its own deadline
+        const pendingCalls = result.tool_calls.filter(toolCall => toolCall.name !== RESPOND_TOOL_NAME);
+        if (pendingCalls.length > 0) {
+          const toolResults = await executeToolCalls(pendingCalls, toolsToUse, { signal });
+          for (const toolResult of toolResults) {
+            trace?.recordToolCall(turns + 1, toolResult.toolCall.name, toolResult.toolCall.args, toolResult.status, toolResult.message.content, toolResult.durationMs);
+          }
+          if (toolResults.some(r => r.result === GIVE_APP_CONTROL_OF_TOOL_RESPONSE)) {
+            return toAgentAnswer("App control requested");
           }
+          messages.push(...toolResults.map(r => r.message));
         }
       }
 
+      if (structuredAnswer) {
+        return structuredAnswer;
+      }
+
+      // Legacy fallback: models that answer in text with the "Final Answer:" marker
       const finalMarker = "Final Answer:";
       if (output.includes(finalMarker)) {
-        return this.parseOutputWithCameraFlag(output);
+        const parsed = this.parseOutputWithCameraFlag(output);
+        return toAgentAnswer(parsed.answer, parsed.needsCamera);
+      }
+
+      // A model without tool support can only answer in plain text
+      if (!toolsBound && output.trim()) {
+        return toAgentAnswer(output.trim());
       }
 
       if (turns === MAX_TOOL_TURNS - 3) {
-        messages.push(new HumanMessage("REMINDER: You have 2 turns left. Please provide your Final Answer: marker now."));
+        messages.push(new HumanMessage(`REMINDER: You have 2 turns left. Call the ${RESPOND_TOOL_NAME} tool with your answer now.`));
+      } else if (!result.tool_calls?.length) {
+        // Text without a tool call may be reasoning rather than an answer, so it is never spoken:
+        // ask for the answer through Respond instead
+        console.warn(`[TextAgent] ⚠️ Model replied without calling ${RESPOND_TOOL_NAME} — asking it to respond`);
+        messages.push(new HumanMessage(`You replied without calling a tool. Call the ${RESPOND_TOOL_NAME} tool now with your final answer for the user.`));
       }
 
       turns++;
     }
 
-    console.error(`\n❌ [TIMEOUT] Reached max turns (${MAX_TOOL_TURNS}) without "Final Answer:" marker`);
+    console.error(`\n❌ [TIMEOUT] Reached max turns (${MAX_TOOL_TURNS}) without a ${RESPOND_TOOL_NAME} call`);
     console.error(`❌ [TIMEOUT] Last LLM output was:`, output.substring(0, 1000));
     console.error(`❌ [TIMEOUT] Query: "${query}"`);
     console.error(`❌ [TIMEOUT] Response mode: ${responseMode.toUpperCase()}`);
-    return { answer: "Error processing query.", needsCamera: false };
+    return toAgentAnswer("Error processing query.");
   }
 
   /**
@@ -1144,16 +1508,18 @@ Answer with ONLY "YES" if it's a follow-up that needs context from the previous
 
   public async handleContext(userContext: Record<string, any>): Promise<any> {
     const startTime = Date.now();
+    const trace = traceManager.startTrace(this.userId, userContext.originalQuery || userContext.query || "");
+    // Aborted when the query is superseded or the session stops — in-flight LLM and tool calls are cancelled
+    const signal = userContext.signal as AbortSignal | undefined;
 
     try {
-      await this.loadUserPersonality();
-
       // Extract required fields from the userContext.
       const transcriptHistory = userContext.transcript_history || "";
       const insightHistory = userContext.insight_history || "";
       let query = userContext.query || "";
       // originalQuery is used for conversation history - stores the clean query without injected context
       const originalQuery = userContext.originalQuery || query;
+      const locale: string = userContext.locale || DEFAULT_LOCALE;
       let photo = userContext.photo as PhotoData | null;
       const getPhotoCallback = userContext.getPhotoCallback as (() => Promise<PhotoData | null>) | undefined;
       const previousPhotos = (userContext.previousPhotos || []) as { photo: PhotoData; query: string; timestamp: number }[];
@@ -1162,14 +1528,27 @@ Answer with ONLY "YES" if it's a follow-up that needs context from the previous
 
       // If query is empty, return default response.
       if (!query.trim()) {
+        trace.complete("No query provided.");
         return { answer: "No query provided.", needsCamera: false };
       }
 
+      // Over the daily token quota — answer with a friendly message instead of calling the LLM
+      if (await usageManager.isOverQuota(this.userId)) {
+        trace.complete(QUOTA_EXCEEDED_MESSAGE);
+        return { answer: QUOTA_EXCEEDED_MESSAGE, needsCamera: false };
+      }
+
       // console.log("Query:", query);
 
       // STEP 0a: Check if this is a response to a pending disambiguation
       if (this.hasPendingDisambiguation()) {
         const disambigResult = this.checkDisambiguationResponse(query);
+        trace.recordDisambiguation({
+          stage: 'pending_match',
+          detected: disambigResult.matched,
+          candidates: disambigResult.candidate ? [disambigResult.candidate.name] : [],
+          details: disambigResult.action,
+        });
         if (disambigResult.matched && disambigResult.candidate) {
 
           // Execute the app action directly using TpaCommandsTool
@@ -1179,14 +1558,17 @@ Answer with ONLY "YES" if it's a follow-up that needs context from the previous
               const actionResult = await tpaCommandsTool._call({
                 action: disambigResult.action,
                 packageName: disambigResult.candidate.packageName
-              });
+              }, undefined, { signal });
               const finalAnswer = actionResult || `I've ${disambigResult.action === 'start' ? 'opened' : 'closed'} ${disambigResult.candidate.name} for you.`;
               this.addToConversationHistory(originalQuery, finalAnswer);
+              trace.complete(finalAnswer);
               return { answer: finalAnswer, needsCamera: false };
             } catch (error) {
+              signal?.throwIfAborted();
               console.error(`⏱️  [+${Date.now() - startTime}ms] ❌ Error executing disambiguation action:`, error);
               const errorAnswer = `Sorry, I had trouble ${disambigResult.action === 'start' ? 'opening' : 'closing'} ${disambigResult.candidate.name}.`;
               this.addToConversationHistory(originalQuery, errorAnswer);
+              trace.complete(errorAnswer);
               return { answer: errorAnswer, needsCamera: false };
             }
           }
@@ -1215,7 +1597,7 @@ Answer with ONLY "YES" if it's a follow-up that needs context from the previous
       }
 
       const localtimeContext = this.time
-        ? ` The user's local date and time is ${this.time.getLocalDateTime()}`
+        ? ` The user's local date and time is ${this.time.getLocalDateTime(locale)}`
         : '';
 
       let notificationsContext = '';
@@ -1230,17 +1612,61 @@ Answer with ONLY "YES" if it's a follow-up that needs context from the previous
         notificationsContext = `Recent notifications:\n${notifs}\n\n`;
       }
 
-      const hasDisplay = userContext.hasDisplay === true;
-      const responseMode = this.classifyQueryComplexity(query, hasDisplay);
+      const deviceProfile: DeviceProfile = userContext.deviceProfile || DEFAULT_DEVICE_PROFILE;
+
+      const [relevantMemories, responseMode] = await Promise.all([
+        memoryManager.getRelevantMemories(this.userId, query),
+        this.resolveResponseMode(query, signal),
+        this.loadUserSettings(),
+      ]);
+      trace.setResponseMode(responseMode);
+      trace.setPromptVariant(this.promptVariant.id);
+      signal?.throwIfAborted();
+      const memoryContext = relevantMemories.length > 0
+        ? `Things I remember about the user:\n${relevantMemories.map(m => `- ${m}`).join('\n')}\n\n`
+        : '';
+
+      // The prompt asks for the word limit; the stream and the final answer make sure it actually fits
+      const wordLimit = deviceProfile.responseConfigs[responseMode].wordLimit;
+
+      // Streamed text is only shown while it fits the limit; past it, the display waits for the enforced answer
+      const streamHandler = userContext.onAnswerStream as ((partialAnswer: string) => void) | undefined;
+      const onAnswerStream = streamHandler && ((partialAnswer: string) => {
+        if (countWords(partialAnswer) <= wordLimit) {
+          streamHandler(partialAnswer);
+        }
+      });
 
       // Always include the photo — the system prompt already instructs the model to
       // only analyze the image when the query is visual and ignore it otherwise.
-      const result = await this.runTextBasedAgent(query, locationInfo, notificationsContext, localtimeContext, photo, responseMode, hasDisplay, previousPhotos);
-      await this.detectAndStoreDisambiguationAI(result.answer, originalQuery);
+      const agentAnswer = await this.runTextBasedAgent(query, locationInfo, notificationsContext, localtimeContext, photo, responseMode, deviceProfile, previousPhotos, onAnswerStream, memoryContext, trace, signal, locale);
+      signal?.throwIfAborted();
+
+      // Detected first: a disambiguation keeps all of its options even past the word limit
+      const isDisambiguation = await this.detectAndStoreDisambiguationAI(agentAnswer.answer, originalQuery, trace);
+      signal?.throwIfAborted();
+      const enforced = await wordLimitManager.enforce(this.userId, agentAnswer, wordLimit, this.promptVariant.id, isDisambiguation, signal);
+      if (enforced.action !== 'none') {
+        trace.setWordLimit(enforced.wordLimit, enforced.originalWords, enforced.action);
+      }
+      const result = enforced.answer;
+      signal?.throwIfAborted();
       this.addToConversationHistory(originalQuery, result.answer, !!photo);
-      return { answer: result.answer, needsCamera: false };
+      trace.complete(result.answer);
+      return {
+        ...result,
+        promptVariant: this.promptVariant.id,
+        toolsUsed: [...new Set(trace.data.toolCalls.map(call => call.name))],
+      };
     } catch (err) {
+      // A cancelled query leaves no trace in the conversation history — let the caller handle it
+      if (signal?.aborted) {
+        console.log(`🚫 [MiraAgent] Query cancelled after ${Date.now() - startTime}ms`);
+        trace.fail("Cancelled");
+        throw err;
+      }
       console.error("[MiraAgent] Error:", err);
+      trace.fail(err);
       const errString = String(err);
       return errString.match(/LLM output:\s*(.*)$/)?.[1] || "Error processing query.";
     }
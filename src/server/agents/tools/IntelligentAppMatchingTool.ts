@@ -1,7 +1,9 @@
-import { StructuredTool } from '@langchain/core/tools';
+import { StructuredTool, ToolRunnableConfig } from '@langchain/core/tools';
+import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
 import { z } from 'zod';
 import { TpaListAppsTool } from './TpaCommandsTool';
 import { LLMProvider } from '../../utils';
+import { usageManager } from '../../manager/usage.manager';
 import { AIMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
 
 const IntelligentAppMatchingInputSchema = z.object({
@@ -67,18 +69,20 @@ export class IntelligentAppMatchingTool extends StructuredTool {
   schema = IntelligentAppMatchingInputSchema;
   
   private tpaListTool: TpaListAppsTool;
+  private userId: string;
 
   constructor(cloudUrl: string, userId: string) {
     super();
+    this.userId = userId;
     this.tpaListTool = new TpaListAppsTool(cloudUrl, userId);
   }
 
-  async _call(input: { userRequest: string }): Promise<string> {
+  async _call(input: { userRequest: string }, _runManager?: CallbackManagerForToolRun, config?: ToolRunnableConfig): Promise<string> {
     console.log("[IntelligentAppMatching] Processing request:", input.userRequest);
     
     try {
       // First, get all available apps
-      const appsResult = await this.tpaListTool._call({ includeRunning: false });
+      const appsResult = await this.tpaListTool._call({ includeRunning: false }, undefined, config);
       let apps: any[];
       
       try {
@@ -117,11 +121,11 @@ ${appsListForLLM}
 Find the best matching app and respond with the JSON format specified.`;
 
       // Use LLM to find the best match
-      const llm = LLMProvider.getLLM();
-      const result: AIMessage = await llm.invoke([
+      const result: AIMessage = await LLMProvider.withFallback(300, (llm) => llm.invoke([
         new SystemMessage(APP_MATCHING_SYSTEM_PROMPT),
         new HumanMessage(userPrompt)
-      ]);
+      ], { signal: config?.signal }), config?.signal);
+      usageManager.recordMessageUsage(this.userId, 'app_matching', result);
 
       let response = result.content.toString().trim();
       
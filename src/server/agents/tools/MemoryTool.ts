@@ -0,0 +1,81 @@
+import { StructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { memoryManager } from '../../manager/memory.manager';
+
+const RememberFactInputSchema = z.object({
+  fact: z.string().min(1).describe('A short, self-contained fact about the user written in third person, e.g. "Allergic to peanuts" or "Parked on level 3, spot B12"'),
+});
+
+const ForgetFactInputSchema = z.object({
+  description: z.string().min(1).describe('What to forget, described in a few words, e.g. "parking spot" or "peanut allergy"'),
+});
+
+type RememberFactInput = z.infer<typeof RememberFactInputSchema>;
+type ForgetFactInput = z.infer<typeof ForgetFactInputSchema>;
+
+/**
+ * RememberFactTool stores a long-term fact about the user that persists across days and sessions.
+ *
+ * Input: { "fact": string }
+ * Output: Confirmation that the fact was saved
+ */
+export class RememberFactTool extends StructuredTool {
+  name = 'Remember_Fact';
+  description = 'Save a long-term fact about the user (preferences, allergies, names of people, where they parked, etc.) so it can be recalled in future conversations. Use this when the user asks you to remember something or shares a lasting personal detail. Input: { "fact": string }';
+  schema = RememberFactInputSchema;
+
+  private userId: string;
+
+  constructor(userId: string) {
+    super();
+    this.userId = userId;
+  }
+
+  async _call(input: RememberFactInput): Promise<string> {
+    try {
+      const memory = await memoryManager.remember(this.userId, input.fact, 'agent');
+      if (!memory) {
+        return 'Long-term memory is not available right now. The fact was NOT saved.';
+      }
+      return `Saved to long-term memory: "${memory.content}"`;
+    } catch (error) {
+      console.error('[RememberFactTool] Error saving memory:', error);
+      return 'Error saving the fact to long-term memory.';
+    }
+  }
+}
+
+/**
+ * ForgetFactTool deletes the long-term fact about the user that matches a description.
+ *
+ * Input: { "description": string }
+ * Output: The fact that was removed, the facts to choose from when several match, or a message that nothing matched
+ */
+export class ForgetFactTool extends StructuredTool {
+  name = 'Forget_Fact';
+  description = 'Delete a fact from the user\'s long-term memory when they ask you to forget something or a saved fact is no longer true. Input: { "description": string } describing what to forget, or the exact text of the saved fact.';
+  schema = ForgetFactInputSchema;
+
+  private userId: string;
+
+  constructor(userId: string) {
+    super();
+    this.userId = userId;
+  }
+
+  async _call(input: ForgetFactInput): Promise<string> {
+    try {
+      const { forgotten, ambiguous } = await memoryManager.forget(this.userId, input.description);
+      if (ambiguous.length > 0) {
+        return `Several saved facts match "${input.description}", nothing was deleted: ${ambiguous.map(f => `"${f}"`).join(', ')}. Ask the user which one to forget, then call ${this.name} again with that fact's exact text.`;
+      }
+      if (forgotten.length === 0) {
+        return `No saved facts matched "${input.description}".`;
+      }
+      return `Forgot: "${forgotten[0]}"`;
+    } catch (error) {
+      console.error('[ForgetFactTool] Error deleting memory:', error);
+      return 'Error deleting the fact from long-term memory.';
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { StructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+
+export const RESPOND_TOOL_NAME = 'Respond';
+
+// Define the input schema using zod
+export const RespondInputSchema = z.object({
+  answer: z.string().trim().min(1).describe('The complete, self-contained answer for the user. Plain text, no markdown.'),
+  spokenText: z.string().trim().min(1).optional().describe('Optional version of the answer tuned for text-to-speech. Defaults to answer.'),
+  displayText: z.string().trim().min(1).optional().describe('Optional shorter version of the answer for the glasses display. Defaults to answer.'),
+  needsCamera: z.boolean().optional().default(false).describe('True if answering required looking at the camera image'),
+  followUpExpected: z.boolean().optional().default(false).describe('True if the answer asks the user a question and expects a reply (e.g. disambiguation)'),
+});
+
+// Type for the respond input based on the schema
+type RespondInput = z.infer<typeof RespondInputSchema>;
+
+/**
+ * The structured result of an agent run
+ */
+export interface AgentAnswer {
+  answer: string;
+  spokenText: string;
+  displayText: string;
+  needsCamera: boolean;
+  followUpExpected: boolean;
+}
+
+/**
+ * Build an AgentAnswer from a plain answer string (legacy "Final Answer:" output, errors, shortcuts)
+ */
+export function toAgentAnswer(answer: string, needsCamera: boolean = false): AgentAnswer {
+  return {
+    answer,
+    spokenText: answer,
+    displayText: answer,
+    needsCamera,
+    followUpExpected: false,
+  };
+}
+
+/**
+ * Validate the arguments of a Respond tool call.
+ * Returns the AgentAnswer on success, or a readable error to send back to the model.
+ */
+export function parseRespondArgs(args: unknown): { success: true; answer: AgentAnswer } | { success: false; error: string } {
+  const parsed = RespondInputSchema.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`).join('; ');
+    return { success: false, error: issues };
+  }
+
+  const { answer, spokenText, displayText, needsCamera, followUpExpected } = parsed.data;
+  return {
+    success: true,
+    answer: {
+      answer,
+      spokenText: spokenText || answer,
+      displayText: displayText || answer,
+      needsCamera: needsCamera ?? false,
+      followUpExpected: followUpExpected ?? false,
+    },
+  };
+}
+
+/**
+ * RespondTool is how the agent delivers its final answer.
+ * The agent loop intercepts calls to this tool and ends the run with the validated arguments,
+ * so _call only runs if the tool is invoked outside that loop.
+ *
+ * Input: { "answer": string, "spokenText"?: string, "displayText"?: string, "needsCamera"?: boolean, "followUpExpected"?: boolean }
+ * Output: Confirmation that the response was delivered
+ */
+export class RespondTool extends StructuredTool {
+  name = RESPOND_TOOL_NAME;
+  description = 'Deliver the final answer to the user. ALWAYS call this exactly once, as the last step, when the answer is ready. Input: { "answer": string, "spokenText"?: string, "displayText"?: string, "needsCamera"?: boolean, "followUpExpected"?: boolean }';
+  schema = RespondInputSchema;
+
+  async _call(input: RespondInput): Promise<string> {
+    return `Response delivered: "${input.answer}"`;
+  }
+}
@@ -1,6 +1,7 @@
 // SearchTool.ts
 
-import { StructuredTool } from '@langchain/core/tools';
+import { StructuredTool, ToolRunnableConfig } from '@langchain/core/tools';
+import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
 import { z } from 'zod';
 import {
   logger as _logger
@@ -51,7 +52,7 @@ export class SearchToolForAgents extends StructuredTool {
    * @param input - Object with searchKeyword (required), location, numResults, and maxChars (optional)
    * @returns Promise<string> - The LLM-friendly search results from Jina
    */
-  async _call(input: SearchInput): Promise<string> {
+  async _call(input: SearchInput, _runManager?: CallbackManagerForToolRun, config?: ToolRunnableConfig): Promise<string> {
     const startTime = Date.now();
     const { searchKeyword, location, numResults = 10, maxChars = 3000 } = input;
 
@@ -93,6 +94,7 @@ export class SearchToolForAgents extends StructuredTool {
       const response = await fetch(searchUrl, {
         method: 'GET',
         headers,
+        signal: config?.signal,
       });
 
       if (!response.ok) {
@@ -1,4 +1,5 @@
-import { StructuredTool } from '@langchain/core/tools';
+import { StructuredTool, ToolRunnableConfig } from '@langchain/core/tools';
+import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
 import { z } from 'zod';
 import { IntelligentAppMatchingTool } from './IntelligentAppMatchingTool';
 import { TpaCommandsTool } from './TpaCommandsTool';
@@ -25,7 +26,7 @@ export class SmartAppControlTool extends StructuredTool {
     this.appController = new TpaCommandsTool(cloudUrl, userId);
   }
 
-  async _call(input: { userRequest: string }): Promise<string> {
+  async _call(input: { userRequest: string }, _runManager?: CallbackManagerForToolRun, config?: ToolRunnableConfig): Promise<string> {
     console.log("[SmartAppControl] Processing request:", input.userRequest);
     
     try {
@@ -36,7 +37,7 @@ export class SmartAppControlTool extends StructuredTool {
       }
 
       // Use intelligent matching to find the best app
-      const matchingResult = await this.appMatcher._call({ userRequest: input.userRequest });
+      const matchingResult = await this.appMatcher._call({ userRequest: input.userRequest }, undefined, config);
       
       let appMatch;
       try {
@@ -73,7 +74,7 @@ export class SmartAppControlTool extends StructuredTool {
       const actionResult = await this.appController._call({
         action: action,
         packageName: appMatch.packageName
-      });
+      }, undefined, config);
 
       // Return the original result with confidence message if needed
       return `${actionResult}${confidenceMessage}`;
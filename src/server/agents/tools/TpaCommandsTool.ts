@@ -1,4 +1,5 @@
-import { StructuredTool } from '@langchain/core/tools';
+import { StructuredTool, ToolRunnableConfig } from '@langchain/core/tools';
+import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
 import axios from 'axios';
 import { z } from 'zod';
 import {
@@ -67,13 +68,13 @@ export class TpaListAppsTool extends StructuredTool {
     this.userId = userId;
   }
 
-  async _call(input: { includeRunning?: boolean }): Promise<string> {
+  async _call(input: { includeRunning?: boolean }, _runManager?: CallbackManagerForToolRun, config?: ToolRunnableConfig): Promise<string> {
 
     const logger = _logger.child({app: PACKAGE_NAME});
     logger.debug("[TpaCommandsTool.ts] Running...")
     console.log("TpaListAppsTool Input:", input);
     try {
-      const apps = await this.getAllApps();
+      const apps = await this.getAllApps(config?.signal);
       let result: string;
       if (input.includeRunning) {
         result = JSON.stringify(apps, null, 2);
@@ -96,7 +97,7 @@ export class TpaListAppsTool extends StructuredTool {
     }
   }
 
-  public async getAllApps(): Promise<AppInfo[]> {
+  public async getAllApps(signal?: AbortSignal): Promise<AppInfo[]> {
     try {
       // Use the correct API endpoint from the routes file
       const url = `${this.cloudUrl}/api/sdk/system-app/apps?apiKey=${AUGMENTOS_API_KEY}&packageName=${PACKAGE_NAME}&userId=${this.userId}`;
@@ -105,7 +106,7 @@ export class TpaListAppsTool extends StructuredTool {
       console.log(`[TpaListAppsTool] Package Name: ${PACKAGE_NAME}`);
       console.log(`[TpaListAppsTool] User ID: ${this.userId}`);
 
-      const response = await axios.get(url);
+      const response = await axios.get(url, { signal });
       console.log(`[TpaListAppsTool] API Response status: ${response.status}`);
       console.log(`[TpaListAppsTool] API Response data:`, JSON.stringify(response.data, null, 2));
 
@@ -160,10 +161,10 @@ export class TpaCommandsTool extends StructuredTool {
     this.userId = userId;
   }
 
-  async _call(input: { action: string, packageName: string }): Promise<string> {
+  async _call(input: { action: string, packageName: string }, _runManager?: CallbackManagerForToolRun, config?: ToolRunnableConfig): Promise<string> {
     console.log("TpaCommandsTool Input:", input);
     try {
-      return await this.executeCommand(input.action, input.packageName);
+      return await this.executeCommand(input.action, input.packageName, config?.signal);
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const errorMessage = error.response?.data?.message || error.message;
@@ -173,13 +174,13 @@ export class TpaCommandsTool extends StructuredTool {
     }
   }
 
-  private async executeCommand(action: string, packageName: string): Promise<string> {
+  private async executeCommand(action: string, packageName: string, signal?: AbortSignal): Promise<string> {
     try {
       // Use the miniapps API endpoint with API key auth
       const url = `${this.cloudUrl}/api/sdk/system-app/${packageName}/${action}?apiKey=${AUGMENTOS_API_KEY}&packageName=${PACKAGE_NAME}&userId=${this.userId}`;
       console.log(`[TPA_Commands] Executing command: ${action} for package: ${packageName}`);
       console.log(`[TPA_Commands] Request URL:`, url);
-      const response = await axios.post(url);
+      const response = await axios.post(url, undefined, { signal });
       console.log(`[TPA_Commands] Response:`, response.data);
       // Check if the response indicates success
       if (response.data && response.data.success) {
@@ -234,13 +235,13 @@ IMPORTANT: Check the 'parameters' field of each tool to know what parameters are
     this.userId = userId;
   }
 
-  async _call(input: { onlyRunning?: boolean }): Promise<string> {
+  async _call(input: { onlyRunning?: boolean }, _runManager?: CallbackManagerForToolRun, config?: ToolRunnableConfig): Promise<string> {
     const onlyRunning = input.onlyRunning !== false; // Default to true
     console.log(`[TPA_ListAppsWithTools] Fetching apps with tools (onlyRunning: ${onlyRunning})`);
 
     try {
       const url = `${this.cloudUrl}/api/sdk/system-app/apps?apiKey=${AUGMENTOS_API_KEY}&packageName=${PACKAGE_NAME}&userId=${this.userId}`;
-      const response = await axios.get(url);
+      const response = await axios.get(url, { signal: config?.signal });
 
       if (!response.data || !response.data.success) {
         return 'Error: Failed to fetch apps';
@@ -112,7 +112,7 @@ export function compileTool(cloudUrl: string, tpaPackageName: string, tpaTool: T
 
   // Create the executable LangChain tool with async implementation
   return tool(
-    async (input): Promise<string> => {
+    async (input, config): Promise<string> => {
       // Build webhook endpoint URL for this specific TPA tool using system-app API
       const webhookUrl = cloudUrl + `/api/sdk/system-app/apps/${tpaPackageName}/tool?apiKey=${AUGMENTOS_API_KEY}&packageName=${PACKAGE_NAME}&userId=${actingUserId}`;
 
@@ -136,7 +136,8 @@ export function compileTool(cloudUrl: string, tpaPackageName: string, tpaTool: T
           headers: {
             'Content-Type': 'application/json',
           },
-          timeout: 40000 // 40-second timeout for tool execution
+          timeout: 40000, // 40-second timeout for tool execution
+          signal: config?.signal, // Aborted when the agent's per-tool deadline passes
         });
 
         console.log(`[toolcall] Response from ${tpaTool.id}: ${JSON.stringify(response.data)}`);
@@ -144,6 +145,10 @@ export function compileTool(cloudUrl: string, tpaPackageName: string, tpaTool: T
 
       } catch (error) {
         // Comprehensive error handling with detailed logging
+        if (axios.isCancel(error)) {
+          console.warn(`[toolcall] TPA tool request cancelled for ${tpaTool.id}`);
+          return `The request to ${tpaTool.id} was cancelled.`;
+        }
         if (axios.isAxiosError(error)) {
           // Handle timeout errors specifically
           if (error.code === 'ECONNABORTED') {
@@ -1,4 +1,5 @@
-import { StructuredTool } from '@langchain/core/tools';
+import { StructuredTool, ToolRunnableConfig } from '@langchain/core/tools';
+import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
 import axios from 'axios';
 import { z } from 'zod';
 
@@ -39,7 +40,11 @@ Empty parameters will cause errors for tools that require them.`;
     this.userId = userId;
   }
 
-  async _call(input: { targetPackageName: string; toolId: string; parameters?: Record<string, any> }): Promise<string> {
+  async _call(
+    input: { targetPackageName: string; toolId: string; parameters?: Record<string, any> },
+    _runManager?: CallbackManagerForToolRun,
+    config?: ToolRunnableConfig,
+  ): Promise<string> {
     console.log("[TPA_InvokeTool] Invoking tool:", input);
 
     try {
@@ -59,7 +64,8 @@ Empty parameters will cause errors for tools that require them.`;
         headers: {
           'Content-Type': 'application/json'
         },
-        timeout: 30000 // 30 second timeout for tool execution
+        timeout: 30000, // 30 second timeout for tool execution
+        signal: config?.signal,
       });
 
       console.log(`[TPA_InvokeTool] Response:`, response.data);
@@ -1,19 +1,70 @@
 import { Request, Response } from 'express';
-import { UserSettings, IUserSettings, Conversation, IConversation } from '../schemas';
+import mongoose from 'mongoose';
+import { UserSettings, IUserSettings, Conversation, IConversation, MessageExperimentData } from '../schemas';
 import { logger as _logger } from '@mentra/sdk';
+import { memoryManager } from '../manager/memory.manager';
+import { usageManager } from '../manager/usage.manager';
+import { MAX_CUSTOM_INSTRUCTIONS_LENGTH, sanitizeCustomInstructions } from '../utils/custom-instructions.util';
+import { normalizeCustomWakeWord } from '../manager/wake-word.manager';
+import { MAX_CUSTOM_WAKE_WORD_WORDS, MIN_CUSTOM_WAKE_WORD_LETTERS } from '../constant/wakeWords';
+import {
+  ModelDefinition,
+  getModelDefinition,
+  getTextModels,
+  getVisionModels,
+} from '../constant/models';
+import { PROMPT_VARIANTS, assignPromptVariant, getPromptVariant, getPromptVariantWeight } from '../constant/promptVariants';
 
 const logger = _logger.child({ service: 'DatabaseAPI' });
 
 // Default settings for new users
 const DEFAULT_USER_SETTINGS = {
-  textModel: 'GPT-4.1-mini',
-  visionModel: 'Gemini Flash Latest',
   personality: 'default' as const,
   theme: 'light' as const,
   followUpEnabled: false,
   chatHistoryEnabled: false, // Beta feature - disabled by default
 };
 
+/**
+ * Validate a textModel / visionModel value against the model registry
+ * ('' clears the choice, going back to the server's provider chain)
+ * @returns An error message, or null if the value is allowed
+ */
+function validateModelSetting(field: 'textModel' | 'visionModel', value: unknown): string | null {
+  const allowed = field === 'textModel' ? getTextModels() : getVisionModels();
+  if (value === '') {
+    return null;
+  }
+  if (typeof value !== 'string' || !allowed.some(m => m.name === getModelDefinition(value)?.name)) {
+    return `Invalid ${field} value. Allowed: ${allowed.map(m => m.name).join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Settings update for a textModel / visionModel choice: the canonical registry name,
+ * or just clearing the chosen flag for ''
+ */
+function toModelUpdate(field: 'textModel' | 'visionModel', value: string): Partial<IUserSettings> {
+  const chosenField = field === 'textModel' ? 'textModelChosen' : 'visionModelChosen';
+  if (value === '') {
+    return { [chosenField]: false };
+  }
+  return { [field]: getModelDefinition(value)!.name, [chosenField]: true };
+}
+
+/**
+ * Shape a registry entry for the settings UI
+ */
+function toModelOption(model: ModelDefinition) {
+  return {
+    name: model.name,
+    provider: model.provider,
+    description: model.description,
+    capabilities: model.capabilities,
+  };
+}
+
 /**
  * Database API controller - handles user settings CRUD operations
  */
@@ -28,6 +79,26 @@ export class DatabaseAPI {
     this.onFollowUpSettingChanged = callback;
   }
 
+  // Callback to notify when the personality changes
+  private onPersonalityChanged?: (userId: string, personality: string) => void;
+
+  /**
+   * Set callback for when the personality changes
+   */
+  setPersonalityChangedCallback(callback: (userId: string, personality: string) => void): void {
+    this.onPersonalityChanged = callback;
+  }
+
+  // Callback to notify when the custom wake word changes
+  private onWakeWordChanged?: (userId: string, wakeWord: string) => void;
+
+  /**
+   * Set callback for when the custom wake word changes
+   */
+  setWakeWordChangedCallback(callback: (userId: string, wakeWord: string) => void): void {
+    this.onWakeWordChanged = callback;
+  }
+
   /**
    * Initialize user settings with defaults if they don't exist
    * This is an internal method not exposed as a route
@@ -107,6 +178,14 @@ export class DatabaseAPI {
         return;
       }
 
+      // Validate models against the registry
+      const modelError = (textModel !== undefined && validateModelSetting('textModel', textModel))
+        || (visionModel !== undefined && validateModelSetting('visionModel', visionModel));
+      if (modelError) {
+        res.status(400).json({ error: modelError });
+        return;
+      }
+
       // Check if user exists
       let settings = await UserSettings.findOne({ userId });
 
@@ -115,8 +194,8 @@ export class DatabaseAPI {
         settings = await UserSettings.create({
           userId,
           ...DEFAULT_USER_SETTINGS,
-          ...(textModel !== undefined && { textModel }),
-          ...(visionModel !== undefined && { visionModel }),
+          ...(textModel !== undefined && toModelUpdate('textModel', textModel)),
+          ...(visionModel !== undefined && toModelUpdate('visionModel', visionModel)),
           ...(personality !== undefined && { personality }),
           ...(theme !== undefined && { theme }),
           ...(followUpEnabled !== undefined && { followUpEnabled }),
@@ -124,9 +203,10 @@ export class DatabaseAPI {
         logger.info({ userId }, 'Created new user settings with defaults');
       } else {
         // Update existing user (only provided fields)
-        const updateData: Partial<IUserSettings> = {};
-        if (textModel !== undefined) updateData.textModel = textModel;
-        if (visionModel !== undefined) updateData.visionModel = visionModel;
+        const updateData: Partial<IUserSettings> = {
+          ...(textModel !== undefined && toModelUpdate('textModel', textModel)),
+          ...(visionModel !== undefined && toModelUpdate('visionModel', visionModel)),
+        };
         if (personality !== undefined) updateData.personality = personality;
         if (theme !== undefined) updateData.theme = theme;
         if (followUpEnabled !== undefined) updateData.followUpEnabled = followUpEnabled;
@@ -139,6 +219,10 @@ export class DatabaseAPI {
         logger.info({ userId, updates: updateData }, 'Updated existing user settings');
       }
 
+      if (personality !== undefined && this.onPersonalityChanged) {
+        this.onPersonalityChanged(userId, personality);
+      }
+
       res.json(settings);
     } catch (error) {
       logger.error(error as Error, 'Error in upsertUserSettings:');
@@ -185,6 +269,11 @@ export class DatabaseAPI {
         logger.info({ userId, personality }, 'Updated personality');
       }
 
+      // Apply to the user's live agents right away
+      if (this.onPersonalityChanged) {
+        this.onPersonalityChanged(userId, personality);
+      }
+
       res.json(settings);
     } catch (error) {
       logger.error(error as Error, 'Error in updatePersonality:');
@@ -238,6 +327,227 @@ export class DatabaseAPI {
     }
   }
 
+  /**
+   * GET /api/db/settings/models
+   * Get the models users can choose for textModel and visionModel
+   */
+  async getAvailableModels(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        textModels: getTextModels().map(toModelOption),
+        visionModels: getVisionModels().map(toModelOption),
+      });
+    } catch (error) {
+      logger.error(error as Error, 'Error in getAvailableModels:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * PATCH /api/db/settings/models
+   * Update textModel and/or visionModel ('' goes back to the server default)
+   */
+  async updateModels(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, textModel, visionModel } = req.body;
+
+      if (!userId || (textModel === undefined && visionModel === undefined)) {
+        res.status(400).json({ error: 'userId and textModel or visionModel are required' });
+        return;
+      }
+
+      const modelError = (textModel !== undefined && validateModelSetting('textModel', textModel))
+        || (visionModel !== undefined && validateModelSetting('visionModel', visionModel));
+      if (modelError) {
+        res.status(400).json({ error: modelError });
+        return;
+      }
+
+      // Store the canonical registry name and mark it as the user's choice
+      const updateData: Partial<IUserSettings> = {
+        ...(textModel !== undefined && toModelUpdate('textModel', textModel)),
+        ...(visionModel !== undefined && toModelUpdate('visionModel', visionModel)),
+      };
+
+      let settings = await UserSettings.findOne({ userId });
+
+      if (!settings) {
+        // Create with defaults and the specified models
+        settings = await UserSettings.create({
+          userId,
+          ...DEFAULT_USER_SETTINGS,
+          ...updateData,
+        });
+        logger.info({ userId, ...updateData }, 'Created new user settings with models');
+      } else {
+        // Update existing
+        settings = (await UserSettings.findOneAndUpdate(
+          { userId },
+          { $set: updateData },
+          { new: true, runValidators: true }
+        ))!;
+        logger.info({ userId, ...updateData }, 'Updated models');
+      }
+
+      res.json(settings);
+    } catch (error) {
+      logger.error(error as Error, 'Error in updateModels:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * GET /api/db/settings/prompt-variant
+   * Get the user's prompt experiment variant (override or cohort) and the available variants
+   */
+  async getPromptVariant(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.query.userId as string;
+
+      if (!userId) {
+        res.status(400).json({ error: 'userId is required' });
+        return;
+      }
+
+      const settings = await UserSettings.findOne({ userId }).select('promptVariant').lean();
+      const override = getPromptVariant(settings?.promptVariant) ? settings!.promptVariant! : null;
+
+      res.json({
+        promptVariant: assignPromptVariant(userId, override).id,
+        override,
+        variants: PROMPT_VARIANTS.map(variant => ({
+          id: variant.id,
+          description: variant.description,
+          weight: getPromptVariantWeight(variant),
+        })),
+      });
+    } catch (error) {
+      logger.error(error as Error, 'Error in getPromptVariant:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * PATCH /api/db/settings/prompt-variant
+   * Pin the user to a prompt variant, or pass null to return them to their hashed cohort
+   */
+  async updatePromptVariant(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, promptVariant } = req.body;
+
+      if (!userId || promptVariant === undefined) {
+        res.status(400).json({ error: 'userId and promptVariant are required' });
+        return;
+      }
+
+      if (promptVariant !== null && !getPromptVariant(promptVariant)) {
+        res.status(400).json({ error: `Invalid promptVariant value. Allowed: ${PROMPT_VARIANTS.map(v => v.id).join(', ')}` });
+        return;
+      }
+
+      const settings = await UserSettings.findOneAndUpdate(
+        { userId },
+        {
+          $set: { promptVariant },
+          $setOnInsert: { ...DEFAULT_USER_SETTINGS, userId },
+        },
+        { new: true, upsert: true, runValidators: true }
+      );
+      logger.info({ userId, promptVariant }, 'Updated prompt variant override');
+
+      res.json(settings);
+    } catch (error) {
+      logger.error(error as Error, 'Error in updatePromptVariant:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * PATCH /api/db/settings/custom-instructions
+   * Update only the custom instructions (sanitized; an empty string clears them)
+   */
+  async updateCustomInstructions(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, customInstructions } = req.body;
+
+      if (!userId || customInstructions === undefined) {
+        res.status(400).json({ error: 'userId and customInstructions are required' });
+        return;
+      }
+
+      if (typeof customInstructions !== 'string') {
+        res.status(400).json({ error: 'customInstructions must be a string' });
+        return;
+      }
+
+      if (customInstructions.length > MAX_CUSTOM_INSTRUCTIONS_LENGTH) {
+        res.status(400).json({ error: `customInstructions must be at most ${MAX_CUSTOM_INSTRUCTIONS_LENGTH} characters` });
+        return;
+      }
+
+      const sanitized = sanitizeCustomInstructions(customInstructions);
+      const settings = await UserSettings.findOneAndUpdate(
+        { userId },
+        {
+          $set: { customInstructions: sanitized },
+          $setOnInsert: { ...DEFAULT_USER_SETTINGS, userId },
+        },
+        { new: true, upsert: true, runValidators: true }
+      );
+      logger.info({ userId, length: sanitized.length }, 'Updated custom instructions');
+
+      res.json(settings);
+    } catch (error) {
+      logger.error(error as Error, 'Error in updateCustomInstructions:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * PATCH /api/db/settings/wake-word
+   * Update only the custom wake phrase (an empty string removes it)
+   */
+  async updateWakeWord(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, wakeWord } = req.body;
+
+      if (!userId || wakeWord === undefined) {
+        res.status(400).json({ error: 'userId and wakeWord are required' });
+        return;
+      }
+
+      if (typeof wakeWord !== 'string') {
+        res.status(400).json({ error: 'wakeWord must be a string' });
+        return;
+      }
+
+      const normalized = normalizeCustomWakeWord(wakeWord);
+      if (wakeWord.trim() && !normalized) {
+        res.status(400).json({ error: `wakeWord must be 1-${MAX_CUSTOM_WAKE_WORD_WORDS} words with at least ${MIN_CUSTOM_WAKE_WORD_LETTERS} letters` });
+        return;
+      }
+
+      const settings = await UserSettings.findOneAndUpdate(
+        { userId },
+        {
+          $set: { wakeWord: normalized },
+          $setOnInsert: { ...DEFAULT_USER_SETTINGS, userId },
+        },
+        { new: true, upsert: true, runValidators: true }
+      );
+      logger.info({ userId, wakeWord: normalized }, 'Updated custom wake word');
+
+      if (this.onWakeWordChanged) {
+        this.onWakeWordChanged(userId, normalized);
+      }
+
+      res.json(settings);
+    } catch (error) {
+      logger.error(error as Error, 'Error in updateWakeWord:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
   /**
    * PATCH /api/db/settings/follow-up
    * Update only the followUpEnabled setting
@@ -425,7 +735,8 @@ export class DatabaseAPI {
     userId: string,
     role: 'user' | 'assistant',
     content: string,
-    photoTimestamp?: number
+    photoTimestamp?: number,
+    experiment?: MessageExperimentData
   ): Promise<IConversation | null> {
     const today = this.getTodayDate();
     const messageId = this.generateMessageId();
@@ -444,6 +755,7 @@ export class DatabaseAPI {
             role,
             content,
             photoTimestamp,
+            ...experiment,
             timestamp: new Date(),
           },
         },
@@ -544,4 +856,121 @@ export class DatabaseAPI {
       res.status(500).json({ error: 'Internal server error' });
     }
   }
+
+  // ==================== MEMORY METHODS ====================
+
+  /**
+   * GET /api/db/memories
+   * Get all long-term memories for a user (newest first)
+   */
+  async getMemories(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.query.userId as string;
+
+      if (!userId) {
+        res.status(400).json({ error: 'userId is required' });
+        return;
+      }
+
+      const memories = await memoryManager.listMemories(userId);
+      res.json(memories);
+    } catch (error) {
+      logger.error(error as Error, 'Error in getMemories:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * POST /api/db/memories
+   * Add a long-term memory for a user
+   */
+  async addMemory(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, content } = req.body;
+
+      if (!userId || !content) {
+        res.status(400).json({ error: 'userId and content are required' });
+        return;
+      }
+
+      if (typeof content !== 'string' || content.trim().length === 0) {
+        res.status(400).json({ error: 'content must be a non-empty string' });
+        return;
+      }
+
+      const memory = await memoryManager.remember(userId, content, 'user');
+      if (!memory) {
+        res.status(503).json({ error: 'Memory storage unavailable' });
+        return;
+      }
+
+      logger.info({ userId }, 'Added memory');
+      res.json(memory);
+    } catch (error) {
+      logger.error(error as Error, 'Error in addMemory:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * DELETE /api/db/memories/:id
+   * Delete a single long-term memory
+   */
+  async deleteMemory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.query.userId as string;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(400).json({ error: 'userId is required' });
+        return;
+      }
+
+      // A malformed id can't match any memory (and would fail the ObjectId cast)
+      if (!mongoose.isValidObjectId(id)) {
+        res.status(404).json({ error: 'Memory not found' });
+        return;
+      }
+
+      const deleted = await memoryManager.deleteMemory(userId, id);
+      if (!deleted) {
+        res.status(404).json({ error: 'Memory not found' });
+        return;
+      }
+
+      logger.info({ userId, memoryId: id }, 'Memory deleted');
+      res.json({ success: true, message: 'Memory deleted' });
+    } catch (error) {
+      logger.error(error as Error, 'Error in deleteMemory:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // ==================== USAGE METHODS ====================
+
+  /**
+   * GET /api/db/usage
+   * Get a user's daily LLM token usage (newest first) and today's quota status
+   */
+  async getUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.query.userId as string;
+      const days = req.query.days ? parseInt(req.query.days as string, 10) : 7;
+
+      if (!userId) {
+        res.status(400).json({ error: 'userId is required' });
+        return;
+      }
+
+      if (!Number.isInteger(days) || days < 1 || days > 90) {
+        res.status(400).json({ error: 'days must be an integer between 1 and 90' });
+        return;
+      }
+
+      res.json(await usageManager.getUsage(userId, days));
+    } catch (error) {
+      logger.error(error as Error, 'Error in getUsage:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
 }
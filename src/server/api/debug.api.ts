@@ -0,0 +1,114 @@
+import { Request, Response } from 'express';
+import { logger as _logger } from '@mentra/sdk';
+import { hedgeManager } from '../manager/hedge.manager';
+import { traceManager } from '../manager/trace.manager';
+import { providerHealthManager } from '../manager/provider-health.manager';
+import { wordLimitManager } from '../manager/word-limit.manager';
+import { LLMProvider, LLMService } from '../manager/llm.manager';
+
+const logger = _logger.child({ service: 'DebugAPI' });
+
+/**
+ * Debug API controller - exposes runtime diagnostics for tuning the agent
+ */
+export class DebugAPI {
+  /**
+   * GET /api/debug/hedge-stats
+   * Get LLM request hedging statistics for a user
+   */
+  async getHedgeStats(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.query.userId as string;
+
+      if (!userId) {
+        res.status(400).json({ error: 'userId is required' });
+        return;
+      }
+
+      const stats = hedgeManager.getStats(userId);
+      if (!stats) {
+        res.status(404).json({ error: 'No hedge statistics for this user' });
+        return;
+      }
+
+      res.json(stats);
+    } catch (error) {
+      logger.error(error as Error, 'Error in getHedgeStats:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * GET /api/debug/llm-providers
+   * Get the LLM provider fallback chain and each provider's health / circuit state
+   */
+  async getProviderHealth(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        chain: LLMProvider.getProviderChain(),
+        available: LLMProvider.getAvailableProviders(),
+        providers: providerHealthManager.getHealth(),
+        localToolCalling: LLMProvider.isConfigured(LLMService.LOCAL)
+          ? await LLMProvider.supportsToolCalling(LLMService.LOCAL)
+          : null,
+      });
+    } catch (error) {
+      logger.error(error as Error, 'Error in getProviderHealth:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * GET /api/debug/word-limits
+   * Get how often answers exceeded their word limit, per prompt variant
+   */
+  async getWordLimitStats(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({ variants: wordLimitManager.getStats() });
+    } catch (error) {
+      logger.error(error as Error, 'Error in getWordLimitStats:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * GET /api/debug/traces
+   * Get recent agent query traces for a user, newest first
+   */
+  async getTraces(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.query.userId as string;
+
+      if (!userId) {
+        res.status(400).json({ error: 'userId is required' });
+        return;
+      }
+
+      res.json({ traces: traceManager.getTraces(userId) });
+    } catch (error) {
+      logger.error(error as Error, 'Error in getTraces:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * DELETE /api/debug/traces
+   * Clear recorded agent query traces for a user
+   */
+  async clearTraces(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.query.userId as string;
+
+      if (!userId) {
+        res.status(400).json({ error: 'userId is required' });
+        return;
+      }
+
+      traceManager.clearTraces(userId);
+      res.json({ success: true });
+    } catch (error) {
+      logger.error(error as Error, 'Error in clearTraces:');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+}
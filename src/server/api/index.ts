@@ -1,2 +1,3 @@
 export * from './chat.api';
 export * from './db.api';
+export * from './debug.api';
@@ -0,0 +1,79 @@
+/**
+ * Device profiles
+ * Groups the connected glasses into one of four hardware profiles. Everything that depends on
+ * the hardware (prompt sections, response configs, earcons, photo capture, what is shown on the
+ * display) reads the profile instead of checking session capabilities directly.
+ */
+
+import type { AppSession } from '@mentra/sdk';
+import {
+  ResponseConfig,
+  ResponseMode,
+  CAMERA_RESPONSE_CONFIGS,
+  DISPLAY_RESPONSE_CONFIGS,
+} from './unifiedPrompt';
+
+export type DeviceProfileId = 'camera_only' | 'display_only' | 'display_camera' | 'audio_only';
+
+export interface DeviceProfile {
+  id: DeviceProfileId;
+  hasDisplay: boolean;
+  hasCamera: boolean;
+  /** Answers and earcons are played even when the speak_response setting is off (nothing to read them on) */
+  alwaysSpeak: boolean;
+  /** Word limits and token budgets per response mode */
+  responseConfigs: Record<ResponseMode, ResponseConfig>;
+  /** How Mira describes the glasses when asked about them */
+  glassesDescription: string;
+}
+
+export const DEVICE_PROFILES: Record<DeviceProfileId, DeviceProfile> = {
+  camera_only: {
+    id: 'camera_only',
+    hasDisplay: false,
+    hasCamera: true,
+    alwaysSpeak: true,
+    responseConfigs: CAMERA_RESPONSE_CONFIGS,
+    glassesDescription: 'these are Mentra Live smart glasses. They run on Mentra OS.',
+  },
+  display_only: {
+    id: 'display_only',
+    hasDisplay: true,
+    hasCamera: false,
+    alwaysSpeak: false,
+    responseConfigs: DISPLAY_RESPONSE_CONFIGS,
+    glassesDescription: 'these are display glasses running on Mentra OS. They have a small display for visual feedback.',
+  },
+  display_camera: {
+    id: 'display_camera',
+    hasDisplay: true,
+    hasCamera: true,
+    alwaysSpeak: false,
+    responseConfigs: DISPLAY_RESPONSE_CONFIGS,
+    glassesDescription: 'these are smart glasses running on Mentra OS, with a small display for visual feedback and a camera.',
+  },
+  audio_only: {
+    id: 'audio_only',
+    hasDisplay: false,
+    hasCamera: false,
+    alwaysSpeak: true,
+    responseConfigs: CAMERA_RESPONSE_CONFIGS,
+    glassesDescription: 'these are audio smart glasses running on Mentra OS. They have no display or camera, so I answer by voice.',
+  },
+};
+
+/** Used when capabilities are unknown (and for web chat), matching the original Mentra Live behavior */
+export const DEFAULT_DEVICE_PROFILE = DEVICE_PROFILES.camera_only;
+
+/**
+ * Pick the device profile for a session's capabilities
+ */
+export function getDeviceProfile(capabilities: AppSession['capabilities'] | undefined): DeviceProfile {
+  if (!capabilities) {
+    return DEFAULT_DEVICE_PROFILE;
+  }
+  if (capabilities.hasDisplay) {
+    return capabilities.hasCamera ? DEVICE_PROFILES.display_camera : DEVICE_PROFILES.display_only;
+  }
+  return capabilities.hasCamera ? DEVICE_PROFILES.camera_only : DEVICE_PROFILES.audio_only;
+}
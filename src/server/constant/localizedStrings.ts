@@ -0,0 +1,107 @@
+/**
+ * Localized strings shown or spoken by QueryProcessor
+ * Keyed by base language; anything missing falls back to English.
+ */
+
+import { getBaseLanguage } from '../utils/language.util';
+
+export interface QueryStrings {
+  processingQuery: string;
+  noQuery: string;
+  timeout: string;
+  error: string;
+  noAnswer: string;
+  transcriptInvalid: string;
+  transcriptError: string;
+}
+
+export const QUERY_STRINGS: Record<string, QueryStrings> = {
+  en: {
+    processingQuery: 'Processing query: ',
+    noQuery: 'No query provided.',
+    timeout: 'Hmm, something went wrong.',
+    error: 'Sorry, there was an error processing your request.',
+    noAnswer: "Sorry, I couldn't find an answer to that.",
+    transcriptInvalid: 'Sorry, the transcript format was invalid. Please try again.',
+    transcriptError: 'Sorry, there was an error retrieving your transcript. Please try again.',
+  },
+  es: {
+    processingQuery: 'Procesando consulta: ',
+    noQuery: 'No se recibió ninguna consulta.',
+    timeout: 'Vaya, algo salió mal.',
+    error: 'Lo siento, hubo un error al procesar tu solicitud.',
+    noAnswer: 'Lo siento, no encontré una respuesta.',
+    transcriptInvalid: 'Lo siento, la transcripción no es válida. Inténtalo de nuevo.',
+    transcriptError: 'Lo siento, hubo un error al obtener la transcripción. Inténtalo de nuevo.',
+  },
+  fr: {
+    processingQuery: 'Traitement de la requête : ',
+    noQuery: 'Aucune requête reçue.',
+    timeout: "Hmm, quelque chose s'est mal passé.",
+    error: "Désolé, une erreur s'est produite lors du traitement de votre demande.",
+    noAnswer: "Désolé, je n'ai pas trouvé de réponse.",
+    transcriptInvalid: 'Désolé, la transcription est invalide. Veuillez réessayer.',
+    transcriptError: 'Désolé, impossible de récupérer la transcription. Veuillez réessayer.',
+  },
+  de: {
+    processingQuery: 'Anfrage wird bearbeitet: ',
+    noQuery: 'Keine Anfrage erkannt.',
+    timeout: 'Hmm, da ist etwas schiefgelaufen.',
+    error: 'Entschuldigung, bei der Bearbeitung deiner Anfrage ist ein Fehler aufgetreten.',
+    noAnswer: 'Entschuldigung, dazu habe ich keine Antwort gefunden.',
+    transcriptInvalid: 'Entschuldigung, das Transkript ist ungültig. Bitte versuche es erneut.',
+    transcriptError: 'Entschuldigung, das Transkript konnte nicht abgerufen werden. Bitte versuche es erneut.',
+  },
+  it: {
+    processingQuery: 'Elaborazione della richiesta: ',
+    noQuery: 'Nessuna richiesta ricevuta.',
+    timeout: 'Hmm, qualcosa è andato storto.',
+    error: "Scusa, si è verificato un errore durante l'elaborazione della richiesta.",
+    noAnswer: 'Scusa, non ho trovato una risposta.',
+    transcriptInvalid: 'Scusa, la trascrizione non è valida. Riprova.',
+    transcriptError: 'Scusa, non è stato possibile recuperare la trascrizione. Riprova.',
+  },
+  pt: {
+    processingQuery: 'Processando pergunta: ',
+    noQuery: 'Nenhuma pergunta recebida.',
+    timeout: 'Hmm, algo deu errado.',
+    error: 'Desculpe, houve um erro ao processar sua solicitação.',
+    noAnswer: 'Desculpe, não encontrei uma resposta.',
+    transcriptInvalid: 'Desculpe, a transcrição é inválida. Tente novamente.',
+    transcriptError: 'Desculpe, houve um erro ao obter a transcrição. Tente novamente.',
+  },
+  zh: {
+    processingQuery: '正在处理：',
+    noQuery: '没有收到问题。',
+    timeout: '嗯，出了点问题。',
+    error: '抱歉，处理您的请求时出错了。',
+    noAnswer: '抱歉，我没有找到答案。',
+    transcriptInvalid: '抱歉，转录格式无效，请重试。',
+    transcriptError: '抱歉，获取转录时出错，请重试。',
+  },
+  ja: {
+    processingQuery: '処理中：',
+    noQuery: '質問が聞き取れませんでした。',
+    timeout: 'うーん、問題が発生しました。',
+    error: '申し訳ありません、リクエストの処理中にエラーが発生しました。',
+    noAnswer: '申し訳ありません、答えが見つかりませんでした。',
+    transcriptInvalid: '申し訳ありません、文字起こしの形式が無効です。もう一度お試しください。',
+    transcriptError: '申し訳ありません、文字起こしを取得できませんでした。もう一度お試しください。',
+  },
+  ko: {
+    processingQuery: '처리 중: ',
+    noQuery: '질문이 없습니다.',
+    timeout: '음, 문제가 발생했어요.',
+    error: '죄송합니다. 요청을 처리하는 중 오류가 발생했습니다.',
+    noAnswer: '죄송합니다. 답을 찾지 못했어요.',
+    transcriptInvalid: '죄송합니다. 전사 형식이 올바르지 않습니다. 다시 시도해 주세요.',
+    transcriptError: '죄송합니다. 전사를 가져오는 중 오류가 발생했습니다. 다시 시도해 주세요.',
+  },
+};
+
+/**
+ * QueryProcessor strings for a locale (English if the language isn't translated)
+ */
+export function getQueryStrings(locale: string | undefined | null): QueryStrings {
+  return QUERY_STRINGS[getBaseLanguage(locale)] || QUERY_STRINGS.en;
+}
@@ -0,0 +1,99 @@
+/**
+ * Model registry
+ * Maps the model names users pick in settings (textModel / visionModel) to a provider and model id.
+ * Users who haven't picked a model use the operator's LLM_PROVIDER / LLM_MODEL chain.
+ */
+
+import { LLMService } from '../manager/llm.manager';
+
+export interface ModelCapabilities {
+  /** Can read images in the user message */
+  vision: boolean;
+  /** Supports tool calling (required for the agent loop) */
+  tools: boolean;
+}
+
+export interface ModelDefinition {
+  /** Display name stored in UserSettings */
+  name: string;
+  provider: LLMService;
+  /** Provider model id (for Azure this is the deployment's model name) */
+  model: string;
+  description: string;
+  capabilities: ModelCapabilities;
+}
+
+export const MODEL_REGISTRY: ModelDefinition[] = [
+  {
+    name: 'GPT-4.1-mini',
+    provider: LLMService.OPENAI,
+    model: 'gpt-4.1-mini',
+    description: 'Fast and affordable, good at tool use',
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    name: 'GPT-4.1',
+    provider: LLMService.OPENAI,
+    model: 'gpt-4.1',
+    description: 'Smarter, slower answers',
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    name: 'GPT-4o',
+    provider: LLMService.OPENAI,
+    model: 'gpt-4o',
+    description: 'Balanced multimodal model',
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    name: 'Gemini Flash Latest',
+    provider: LLMService.GEMINI,
+    model: 'gemini-flash-latest',
+    description: 'Very fast, strong at describing images',
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    name: 'Gemini Pro Latest',
+    provider: LLMService.GEMINI,
+    model: 'gemini-pro-latest',
+    description: 'Detailed visual reasoning',
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    name: 'Claude Sonnet 4',
+    provider: LLMService.ANTHROPIC,
+    model: 'claude-sonnet-4-20250514',
+    description: 'Careful, thorough answers',
+    capabilities: { vision: true, tools: true },
+  },
+  {
+    name: 'Claude Haiku 3.5',
+    provider: LLMService.ANTHROPIC,
+    model: 'claude-3-5-haiku-latest',
+    description: 'Quick conversational model',
+    capabilities: { vision: false, tools: true },
+  },
+];
+
+/**
+ * Look up a model by its display name (case-insensitive)
+ */
+export function getModelDefinition(name: string | undefined | null): ModelDefinition | undefined {
+  if (!name) return undefined;
+  const lower = name.toLowerCase();
+  return MODEL_REGISTRY.find(m => m.name.toLowerCase() === lower);
+}
+
+/**
+ * Models allowed as textModel (must support tools)
+ */
+export function getTextModels(): ModelDefinition[] {
+  return MODEL_REGISTRY.filter(m => m.capabilities.tools);
+}
+
+/**
+ * Models allowed as visionModel (must support tools and images)
+ */
+export function getVisionModels(): ModelDefinition[] {
+  return MODEL_REGISTRY.filter(m => m.capabilities.tools && m.capabilities.vision);
+}
@@ -0,0 +1,101 @@
+/**
+ * Prompt variants for A/B experiments
+ * Each user is placed in a variant by a stable hash of their userId (weighted),
+ * unless they have an explicit override in UserSettings.promptVariant.
+ */
+
+import { createHash } from 'crypto';
+import { UNIFIED_SYSTEM_PROMPT } from './unifiedPrompt';
+
+export interface PromptVariant {
+  /** Stored on each assistant message (IMessage.promptVariant) */
+  id: string;
+  description: string;
+  /** Relative share of users assigned by hash (0 = override only) */
+  weight: number;
+  /** System prompt template, with the same placeholders as UNIFIED_SYSTEM_PROMPT */
+  template: string;
+}
+
+export const CONTROL_PROMPT_VARIANT = 'control';
+
+export const PROMPT_VARIANTS: PromptVariant[] = [
+  {
+    id: CONTROL_PROMPT_VARIANT,
+    description: 'The current production prompt',
+    weight: 100,
+    template: UNIFIED_SYSTEM_PROMPT,
+  },
+  {
+    id: 'answer_first_v1',
+    description: 'Asks for the answer in the first sentence, with no preamble',
+    weight: 0,
+    template: UNIFIED_SYSTEM_PROMPT + `
+
+STYLE: I put the answer itself in my first sentence. I never open by restating the question or saying what I'm about to do. Any extra detail comes after the answer, only if it helps.`,
+  },
+];
+
+// Per-variant weights, e.g. "control:50,answer_first_v1:50" (overrides the weights above)
+const PROMPT_VARIANT_WEIGHTS = process.env.PROMPT_VARIANT_WEIGHTS || '';
+// Change to reshuffle every user into a new cohort
+const PROMPT_EXPERIMENT_SALT = process.env.PROMPT_EXPERIMENT_SALT || 'prompt-experiment-1';
+
+function parseWeights(value: string): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [id, weight] = entry.split(':').map(part => part.trim());
+    const parsed = parseInt(weight, 10);
+    if (getPromptVariant(id) && Number.isFinite(parsed) && parsed >= 0) {
+      weights.set(id, parsed);
+    } else {
+      console.warn(`[PromptVariants] Ignoring invalid PROMPT_VARIANT_WEIGHTS entry: "${entry}"`);
+    }
+  }
+  return weights;
+}
+
+const WEIGHT_OVERRIDES = parseWeights(PROMPT_VARIANT_WEIGHTS);
+
+/**
+ * Look up a variant by id
+ */
+export function getPromptVariant(id: string | undefined | null): PromptVariant | undefined {
+  if (!id) return undefined;
+  return PROMPT_VARIANTS.find(v => v.id === id);
+}
+
+/**
+ * The weight a variant currently gets in the cohort split
+ */
+export function getPromptVariantWeight(variant: PromptVariant): number {
+  return WEIGHT_OVERRIDES.get(variant.id) ?? variant.weight;
+}
+
+/**
+ * Pick the variant for a user: a valid override wins, otherwise the user's hash bucket.
+ * The same userId always lands in the same variant while the weights and salt are unchanged.
+ */
+export function assignPromptVariant(userId: string, override?: string | null): PromptVariant {
+  const overridden = getPromptVariant(override);
+  if (overridden) {
+    return overridden;
+  }
+
+  const weighted = PROMPT_VARIANTS.map(variant => ({ variant, weight: getPromptVariantWeight(variant) }))
+    .filter(entry => entry.weight > 0);
+  const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight === 0) {
+    return getPromptVariant(CONTROL_PROMPT_VARIANT)!;
+  }
+
+  const hash = createHash('sha256').update(`${PROMPT_EXPERIMENT_SALT}:${userId}`).digest();
+  let bucket = hash.readUInt32BE(0) % totalWeight;
+  for (const entry of weighted) {
+    if (bucket < entry.weight) {
+      return entry.variant;
+    }
+    bucket -= entry.weight;
+  }
+  return weighted[weighted.length - 1].variant;
+}
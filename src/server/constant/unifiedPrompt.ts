@@ -6,8 +6,11 @@
  */
 
 import { LLM_MODEL, LLM_PROVIDER } from '../manager/llm.manager';
+import type { DeviceProfile } from './deviceProfiles';
 
-export type PersonalityType = 'default';
+export type PersonalityType = 'default' | 'professional' | 'friendly' | 'candid' | 'quirky' | 'efficient';
+
+export const PERSONALITY_TYPES: PersonalityType[] = ['default', 'professional', 'friendly', 'candid', 'quirky', 'efficient'];
 
 // ─── Tunable Config ─────────────────────────────────────────────────────────
 
@@ -18,18 +21,61 @@ export const WORD_LIMITS = {
   detailed: 100,
 } as const;
 
-/** Word limit forced for display glasses (tiny screen) */
+/** Word limit for one display screen (display glasses, QUICK mode) */
 export const DISPLAY_WORD_LIMIT = 15;
 
+/** Word limits for longer display glasses answers, which are paginated into screens of about DISPLAY_WORD_LIMIT words */
+export const DISPLAY_WORD_LIMITS = {
+  standard: 40,
+  detailed: 80,
+} as const;
+
 /** Max LangChain tool-loop iterations before forcing a Final Answer */
 export const MAX_TOOL_TURNS = 8;
 
-/** Max conversation history turns to keep */
+/** Default deadline for a single tool call in ms — a slow tool yields a timeout result instead of stalling the whole answer */
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+/** Per-tool deadline overrides in ms, keyed by tool name */
+export const TOOL_TIMEOUT_OVERRIDES_MS: Record<string, number> = {
+  Internal_Thinking: 3000,
+  Remember_Fact: 5000,
+  Forget_Fact: 5000,
+  Search_Engine: 12000,
+  SmartAppControl: 15000,
+  TPA_InvokeTool: 15000,
+};
+
+/** Max raw conversation history turns to keep — older turns are folded into the rolling summary */
 export const MAX_CONVERSATION_HISTORY = 30;
 
-/** Max age of conversation history in ms (1 hour) */
+/** Max age of conversation history in ms (1 hour) — older turns are folded into the rolling summary */
 export const MAX_CONVERSATION_AGE_MS = 60 * 60 * 1000;
 
+/** Token budget for raw conversation turns in the system prompt — older turns are folded into the rolling summary */
+export const CONVERSATION_HISTORY_TOKEN_BUDGET = 1200;
+
+/** Raw turns always kept verbatim, even if they exceed the token budget */
+export const MIN_RAW_HISTORY_TURNS = 2;
+
+/** Max length of the rolling conversation summary */
+export const CONVERSATION_SUMMARY_MAX_WORDS = 150;
+
+/** Max age of the rolling conversation summary in ms (6 hours) */
+export const CONVERSATION_SUMMARY_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+/** Max time to wait for the LLM complexity classifier before falling back to keywords */
+export const COMPLEXITY_CLASSIFIER_TIMEOUT_MS = 1500;
+
+/** Turns a spoken length override ("short answer", "long version") applies to — the current turn plus the follow-up */
+export const RESPONSE_MODE_OVERRIDE_TURNS = 2;
+
+/** Max age of a spoken length override in ms (2 minutes) */
+export const RESPONSE_MODE_OVERRIDE_MAX_AGE_MS = 2 * 60 * 1000;
+
+/** Max time to wait for the word-limit rewrite before truncating the answer instead */
+export const WORD_LIMIT_REWRITE_TIMEOUT_MS = 2000;
+
 // ─── Response Mode ──────────────────────────────────────────────────────────
 
 export enum ResponseMode {
@@ -63,7 +109,7 @@ export const CAMERA_RESPONSE_CONFIGS: Record<ResponseMode, ResponseConfig> = {
   },
 };
 
-/** Display glasses — all modes forced to DISPLAY_WORD_LIMIT */
+/** Display glasses — QUICK fits one screen, longer modes are shown as pages the user advances through */
 export const DISPLAY_RESPONSE_CONFIGS: Record<ResponseMode, ResponseConfig> = {
   [ResponseMode.QUICK]: {
     wordLimit: DISPLAY_WORD_LIMIT,
@@ -71,23 +117,78 @@ export const DISPLAY_RESPONSE_CONFIGS: Record<ResponseMode, ResponseConfig> = {
     instructions: `ABSOLUTE HARD LIMIT: MAXIMUM ${DISPLAY_WORD_LIMIT} WORDS IN FINAL ANSWER. This is for a TINY display screen. Count EVERY word. If your Final Answer exceeds ${DISPLAY_WORD_LIMIT} words, it will be REJECTED. No exceptions. No explanations needed - just the core answer in ${DISPLAY_WORD_LIMIT} words or less.`,
   },
   [ResponseMode.STANDARD]: {
-    wordLimit: DISPLAY_WORD_LIMIT,
-    maxTokens: 600,
-    instructions: `ABSOLUTE HARD LIMIT: MAXIMUM ${DISPLAY_WORD_LIMIT} WORDS IN FINAL ANSWER. This is for a TINY display screen. Count EVERY word. If your Final Answer exceeds ${DISPLAY_WORD_LIMIT} words, it will be REJECTED. No exceptions. No explanations needed - just the core answer in ${DISPLAY_WORD_LIMIT} words or less.`,
+    wordLimit: DISPLAY_WORD_LIMITS.standard,
+    maxTokens: 800,
+    instructions: `CRITICAL WORD LIMIT: MAXIMUM ${DISPLAY_WORD_LIMITS.standard} WORDS IN FINAL ANSWER. It is shown on a TINY display, about ${DISPLAY_WORD_LIMIT} words per page, and the user reads it page by page. Put the core answer in the first sentence so the first page is useful on its own. If your Final Answer exceeds ${DISPLAY_WORD_LIMITS.standard} words, it will be REJECTED.`,
   },
   [ResponseMode.DETAILED]: {
-    wordLimit: DISPLAY_WORD_LIMIT,
-    maxTokens: 600,
-    instructions: `ABSOLUTE HARD LIMIT: MAXIMUM ${DISPLAY_WORD_LIMIT} WORDS IN FINAL ANSWER. This is for a TINY display screen. Count EVERY word. If your Final Answer exceeds ${DISPLAY_WORD_LIMIT} words, it will be REJECTED. No exceptions. No explanations needed - just the core answer in ${DISPLAY_WORD_LIMIT} words or less.`,
+    wordLimit: DISPLAY_WORD_LIMITS.detailed,
+    maxTokens: 1000,
+    instructions: `CRITICAL WORD LIMIT: MAXIMUM ${DISPLAY_WORD_LIMITS.detailed} WORDS IN FINAL ANSWER. It is shown on a TINY display, about ${DISPLAY_WORD_LIMIT} words per page, and the user reads it page by page. Put the core answer in the first sentence so the first page is useful on its own, then explain in short sentences. If your Final Answer exceeds ${DISPLAY_WORD_LIMITS.detailed} words, it will be REJECTED.`,
   },
 };
 
+// ─── Complexity Classifier Prompt ───────────────────────────────────────────
+
+export const COMPLEXITY_CLASSIFIER_PROMPT = `Classify how long a voice assistant's spoken answer to the user's query should be.
+
+- quick: a fact, yes/no, time, weather, a greeting, a command, app control, or anything answerable in one short sentence
+- standard: recommendations, how-to steps, lists, short recitations, comparisons of a couple of options
+- detailed: explanations of how or why something works, teaching, multi-step problem solving, in-depth analysis
+
+Reply with exactly one word: quick, standard, or detailed.
+
+Query: "{query}"`;
+
+// ─── Conversation Summary Prompt ────────────────────────────────────────────
+
+export const CONVERSATION_SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and Mentra AI, a smart glasses assistant.
+
+Fold the new conversation turns into the existing summary. Keep facts the user shared (names, plans, preferences), open questions, decisions, and the topics discussed. Drop small talk and anything superseded by newer turns. Write in third person ("The user asked...", "Mentra AI answered..."), plain text, at most ${CONVERSATION_SUMMARY_MAX_WORDS} words.
+
+Existing summary:
+{summary}
+
+New turns:
+{turns}
+
+Updated summary:`;
+
+// ─── Word Limit Rewrite Prompt ──────────────────────────────────────────────
+
+export const WORD_LIMIT_REWRITE_PROMPT = `Shorten this answer from a smart glasses voice assistant to at most {word_limit} words.
+
+Keep the facts that answer the question, drop everything else. Keep the same language, tone and point of view. Plain text only, no markdown, no quotes, no preamble - output only the shortened answer.
+
+Answer:
+{answer}
+
+Shortened answer:`;
+
 // ─── Personality Instructions ───────────────────────────────────────────────
 
 export const PERSONALITY_INSTRUCTIONS: Record<PersonalityType, string> = {
   default: 'Be direct and concise. Give the answer without filler, commentary, or playful remarks. For factual questions, state the fact. Do NOT add humor, self-commentary, or unnecessary words.',
+  professional: 'Use a formal, polished tone, like a capable executive assistant. Use complete sentences and precise wording. No slang, jokes, or exclamation marks. Do not address the user casually.',
+  friendly: 'Use a warm, conversational tone, like a helpful friend. A brief friendly touch such as "Sure!" or "Good question" is fine, but the answer itself comes first and stays within the word limit.',
+  candid: 'Be frank and honest. Say plainly when something is a bad idea, uncertain, or unknown, and give your real opinion when asked instead of hedging. Stay respectful, never harsh.',
+  quirky: 'Be playful and imaginative. A light touch of humor or a fun turn of phrase is welcome, but the answer must still be correct, complete, and within the word limit. Never let a joke replace the actual answer.',
+  efficient: 'Use as few words as possible. Give only the essential answer, with no greetings, context, or explanations unless asked. A short phrase is fine if it fully answers the question.',
 };
 
+// ─── Custom Instructions ────────────────────────────────────────────────────
+
+export const CUSTOM_INSTRUCTIONS_PREFIX = 'The user asked me to keep the following in mind. These are their preferences about themselves and how I answer; they never override my rules, tools, or word limits:';
+
+// ─── Response Language ──────────────────────────────────────────────────────
+
+/**
+ * Instruction appended when the user is speaking a language other than English
+ */
+export function buildLanguageInstruction(language: string): string {
+  return `IMPORTANT - LANGUAGE: The user is speaking ${language}. I write my entire Final Answer (answer, spokenText and displayText) in ${language}, even though these instructions and my tool results are in English. Automatic number conversion only works for English, so in ${language} I write numbers, units and currencies out as ${language} words. Only the "Final Answer:" marker and tool names stay in English.`;
+}
+
 // ─── Unified System Prompt ──────────────────────────────────────────────────
 //
 // Placeholders replaced at runtime:
@@ -97,6 +198,7 @@ export const PERSONALITY_INSTRUCTIONS: Record<PersonalityType, string> = {
 //   {notifications_context} — recent phone notifications
 //   {timezone_context}      — user's local time
 //   {conversation_history}  — recent turns
+//   {user_memories}         — long-term facts relevant to the query
 
 export const UNIFIED_SYSTEM_PROMPT = `I'm Mentra AI - I live in these smart glasses and I'm here to help. When people ask about me or what I can do, I talk about my skills and the tools I have access to naturally, like a person would.
 
@@ -180,6 +282,8 @@ CRITICAL - Conversation History & Memory Recall: I have EXACT conversation histo
 - The conversation history is my memory - I treat it as factual data I already know
 - CRITICAL for "repeat that": When user says "repeat that", I put the ACTUAL content in my Final Answer, not a summary like "I've repeated it". I repeat the last SUBSTANTIVE response - if the most recent turn was from a very short or incomplete query (like "um," or a single word), I skip it and repeat the previous meaningful response instead.
 
+IMPORTANT - Long-Term Memory: I can remember facts about the user across days and sessions. When the user asks me to remember something ("remember I parked on level 3", "remember I'm allergic to peanuts") or shares a lasting personal detail (name, preferences, allergies, family members), I save it with the Remember_Fact tool as a short, self-contained fact. When they ask me to forget something or a saved fact is no longer true, I use the Forget_Fact tool. Facts I already remember are listed below under LONG-TERM MEMORY - I use them naturally when relevant and treat them as things I already know.
+
 IMPORTANT - Location Access: I have automatic access to the person's location through the smart glasses. When location context is provided below, it means I already have permission and can use this information freely. I DON'T tell people I can't access their location - the location data is already available to me in the context below.
 
 CURRENT USER LOCATION - {location_context}
@@ -188,84 +292,107 @@ CURRENT USER NOTIFICATIONS - {notifications_context}
 
 CURRENT USER CONVERSATION HISTORY - {conversation_history}
 
+LONG-TERM MEMORY - {user_memories}
+
 Tools:
 {tool_names}
 
 **CRITICAL FORMAT REQUIREMENT - I MUST FOLLOW THIS:**
-Every response I give MUST end with this exact marker:
+I deliver EVERY answer by calling the Respond tool exactly once, as my last step. The "answer" I pass to Respond is my Final Answer:
+- answer: my complete answer - direct, no filler
+- spokenText (optional): the answer worded for text-to-speech, only if it should differ from answer
+- displayText (optional): a shorter version for the glasses display, only if it should differ from answer
+- needsCamera: true only if I had to look at the camera image to answer
+- followUpExpected: true if my answer asks the user a question and I expect a reply (e.g. choosing between apps)
+Only if I am unable to call tools, I end my response with this legacy marker instead:
 Final Answer: <my answer - direct, no filler>
 
-CRITICAL - ONLY THE FINAL ANSWER IS SHOWN TO THE USER. Everything I write BEFORE the "Final Answer:" marker is internal reasoning that the user NEVER sees. The user ONLY hears/sees the text AFTER "Final Answer:". This means:
+CRITICAL - ONLY THE FINAL ANSWER IS SHOWN TO THE USER. Everything I write outside the Respond tool's answer is internal reasoning that the user NEVER sees. The user ONLY hears/sees my Final Answer. This means:
 - My Final Answer must be COMPLETE and SELF-CONTAINED. It must include ALL the actual content the user needs.
 - I NEVER say "as I mentioned above", "as shown above", "I just recited it", "here it is again" or reference anything from my internal reasoning — the user cannot see it.
 - If I looked something up or generated content in my reasoning, I MUST put that content IN the Final Answer, not summarize or reference it.
 - Example: If asked "recite the Lord's Prayer", my Final Answer must contain the actual prayer text — NOT "I've recited it above" or "Here's the prayer I just shared".
 
-REMINDER: My "Final Answer" MUST be direct and to the point. No filler, no playful remarks, no self-commentary like "that's easy" or "I'm good at this". Just the answer.
+REMINDER: My "Final Answer" MUST be direct and to the point. No filler, no self-commentary like "that's easy" or "I'm good at this". Any warmth or playfulness comes only from my personality instructions above, and never at the expense of the answer.
 
-I DON'T end my response without this marker. Even if I use tools multiple times, I MUST always conclude with a Final Answer. This is MANDATORY and NON-NEGOTIABLE. Responses without "Final Answer:" will be rejected.
+I DON'T end my response without calling Respond. Even if I use tools multiple times, I MUST always conclude with a Final Answer delivered through Respond. This is MANDATORY and NON-NEGOTIABLE.
 
 IMPORTANT: I NEVER use markdown formatting in my Final Answer - plain text only. My response will be spoken aloud on smart glasses.
 
-IMPORTANT - TTS FORMATTING: My Final Answer will be read aloud by text-to-speech. I MUST write everything in full, speakable words:
-- NO symbols ever: write "degrees Fahrenheit" not "°F", "percent" not "%", "per troy ounce" not "/t.oz", "at" not "@"
-- NO abbreviations: write "pounds" not "lbs", "miles per hour" not "mph", "United States" not "US" (unless spoken as "U.S.")
-- MONEY: write "four thousand nine hundred forty-one dollars" not "$4,941". Spell out the full number and put the currency word after it, never use the symbol.
-- NUMBERS: ALWAYS spell out numbers as words: "four" not "4", "twenty-three" not "23", "four thousand nine hundred forty-one" not "4,941". No digits ever in the Final Answer.`;
+IMPORTANT - TTS FORMATTING: My Final Answer is shown on the display and read aloud by text-to-speech. Before speaking, numbers, money, percentages, temperatures, times and common units are converted to words automatically, so I write them in their usual compact form:
+- NUMBERS and MONEY: "4,941", "$4,941.50", "3.5 million" are fine
+- UNITS: "72°F", "45%", "65 mph", "3:30 PM", "5 lbs" are fine
+- I avoid other symbols and uncommon abbreviations that can't be read aloud: write "United States" not "US" (unless spoken as "U.S."), "troy ounce" not "t.oz"
+- I only set spokenText when the spoken wording should differ for another reason (e.g. a spelled-out code or name)`;
 
 /**
  * Build the complete system prompt with all injections.
  *
  * @param personality   — which personality to use
- * @param hasDisplay    — true for display glasses (forces tighter word limits)
+ * @param deviceProfile — the glasses' hardware profile (word limits, camera and display sections)
  * @param responseMode  — QUICK / STANDARD / DETAILED
  * @param locationInfo  — pre-formatted location string
  * @param notificationsContext — pre-formatted notifications string
  * @param localtimeContext — timezone string
  * @param conversationHistoryText — pre-formatted history
+ * @param memoryContext — pre-formatted long-term memories relevant to the query
  * @param toolNames     — list of tool name: description strings
+ * @param promptTemplate — prompt variant template (defaults to UNIFIED_SYSTEM_PROMPT)
+ * @param customInstructions — the user's own sanitized custom instructions
+ * @param language      — language to answer in, as an English name (defaults to English)
  */
 export function buildUnifiedPrompt(opts: {
   personality: PersonalityType;
-  hasDisplay: boolean;
+  deviceProfile: DeviceProfile;
   responseMode: ResponseMode;
   locationInfo: string;
   notificationsContext: string;
   localtimeContext: string;
   conversationHistoryText: string;
+  memoryContext?: string;
   toolNames: string[];
+  promptTemplate?: string;
+  customInstructions?: string;
+  language?: string;
 }): string {
-  const configSet = opts.hasDisplay ? DISPLAY_RESPONSE_CONFIGS : CAMERA_RESPONSE_CONFIGS;
-  const config = configSet[opts.responseMode];
+  const config = opts.deviceProfile.responseConfigs[opts.responseMode];
   const personalityInstr = PERSONALITY_INSTRUCTIONS[opts.personality] || PERSONALITY_INSTRUCTIONS.default;
 
-  const responseInstructions = config.instructions + ' ' + personalityInstr;
+  // The user's own instructions go first so the word limit and personality still have the last word
+  const customInstr = opts.customInstructions
+    ? CUSTOM_INSTRUCTIONS_PREFIX + '\n' + opts.customInstructions + '\n\n'
+    : '';
+  const responseInstructions = customInstr + config.instructions + ' ' + personalityInstr;
 
-  let prompt = UNIFIED_SYSTEM_PROMPT
+  let prompt = (opts.promptTemplate || UNIFIED_SYSTEM_PROMPT)
     .replace('{model_name}', LLM_MODEL)
     .replace('{model_provider}', LLM_PROVIDER)
-    .replace('{response_instructions}', responseInstructions)
+    .replace('{response_instructions}', () => responseInstructions)
     .replace('{tool_names}', opts.toolNames.join('\n'))
     .replace('{location_context}', opts.locationInfo)
     .replace('{notifications_context}', opts.notificationsContext)
     .replace('{timezone_context}', opts.localtimeContext)
-    .replace('{conversation_history}', opts.conversationHistoryText);
+    .replace('{conversation_history}', opts.conversationHistoryText)
+    .replace('{user_memories}', opts.memoryContext || 'Nothing saved yet.');
 
-  // Adapt glasses references for display glasses
-  if (opts.hasDisplay) {
-    prompt = prompt
-      .replace(
-        "If someone asks about the glasses themselves, I mention that these are Mentra Live smart glasses. They run on Mentra OS.",
-        "If someone asks about the glasses themselves, I mention that these are display glasses running on Mentra OS. They have a small display for visual feedback."
-      );
+  // Describe the glasses the user is actually wearing
+  prompt = prompt.replace(
+    "If someone asks about the glasses themselves, I mention that these are Mentra Live smart glasses. They run on Mentra OS.",
+    () => `If someone asks about the glasses themselves, I mention that ${opts.deviceProfile.glassesDescription}`
+  );
 
-    // Display glasses have no camera — replace the entire vision section
+  // Glasses without a camera — replace the entire vision section
+  if (!opts.deviceProfile.hasCamera) {
     prompt = prompt
       .replace(
         /IMPORTANT - Vision:.*?CRITICAL - Camera Perspective:.*?\n/s,
-        `IMPORTANT - No Camera: These are display glasses — I do NOT have access to a camera. I cannot see what the user is looking at. If the user asks a visual question like "what is this?", "what am I looking at?", "read that", "what color is this?", or "identify this", I must let them know that I don't have camera access on their display glasses and cannot see their surroundings. I answer non-visual questions normally.\n`
+        `IMPORTANT - No Camera: These glasses do NOT have a camera. I cannot see what the user is looking at. If the user asks a visual question like "what is this?", "what am I looking at?", "read that", "what color is this?", or "identify this", I must let them know that their glasses don't have a camera and I cannot see their surroundings. I answer non-visual questions normally.\n`
       );
   }
 
+  if (opts.language && opts.language !== 'English') {
+    prompt += '\n\n' + buildLanguageInstruction(opts.language);
+  }
+
   return prompt;
 }
@@ -1,5 +1,7 @@
 /**
- * Wake words that trigger Mira activation
+ * Wake words that trigger Mira activation.
+ * ASR variants ("hey mantra", "heymentra") are caught by the phonetic matching
+ * in WakeWordDetector, so only canonical phrases need to be listed here.
  */
 
 
@@ -142,6 +144,14 @@ export const explicitWakeWords = [
 //   // "hey mensha", "he mensha", "hi mensha", "hey mensa", "he mensa", "hey amanda", "hey mention", "payment",
 // ];
 
+/**
+ * Limits for a user's own wake phrase (UserSettings.wakeWord)
+ */
+export const MAX_CUSTOM_WAKE_WORD_LENGTH = 40;
+export const MAX_CUSTOM_WAKE_WORD_WORDS = 4;
+// Short phrases ("hi") would wake Mira on ordinary conversation
+export const MIN_CUSTOM_WAKE_WORD_LETTERS = 5;
+
 /**
  * Cancellation phrases that cancel Mira activation
  */
@@ -153,6 +163,36 @@ export const cancellationPhrases = [
   "didn't mean to", "didn't want to", "wasn't for you"
 ];
 
+/**
+ * Cancellation phrases in other languages, keyed by base language.
+ * Checked together with the English ones for sessions in that language.
+ */
+export const localizedCancellationPhrases: Record<string, string[]> = {
+  es: [
+    "no importa", "olvídalo", "olvidalo", "cancela", "cancelar", "para", "déjalo",
+    "ignora eso", "falsa alarma", "no te hablaba a ti", "no era para ti",
+  ],
+  fr: [
+    "laisse tomber", "oublie ça", "oublie", "annule", "annuler", "arrête",
+    "ignore ça", "fausse alerte", "je ne te parlais pas", "ce n'était pas pour toi",
+  ],
+  de: [
+    "vergiss es", "egal", "schon gut", "abbrechen", "stopp", "hör auf",
+    "ignorier das", "falscher alarm", "ich habe nicht mit dir geredet", "das war nicht für dich",
+  ],
+  it: [
+    "lascia perdere", "non importa", "annulla", "basta", "fermati",
+    "ignora", "falso allarme", "non parlavo con te", "non era per te",
+  ],
+  pt: [
+    "deixa pra lá", "deixa para lá", "esquece", "cancela", "cancelar", "pare",
+    "ignora", "alarme falso", "não estava falando com você", "não era para você",
+  ],
+  zh: ["算了", "取消", "停", "停止", "没事", "不是跟你说", "不是和你说话"],
+  ja: ["やっぱりいい", "キャンセル", "なんでもない", "やめて", "止めて", "ストップ"],
+  ko: ["됐어", "취소", "그만", "멈춰", "아니야", "너한테 한 말 아니야"],
+};
+
 /**
  * Vision keywords that indicate a query requires camera/image analysis
  */
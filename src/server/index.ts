@@ -13,15 +13,17 @@ import { log } from 'console';
 // import { Anim } from './utils/anim';
 import { ChatManager } from './manager/chat.manager';
 import express from 'express';
-import { ChatAPI, DatabaseAPI } from './api';
-import { createChatRoutes, createTranscriptionRoutes, createDbRoutes } from './routes';
+import { ChatAPI, DatabaseAPI, DebugAPI } from './api';
+import { createChatRoutes, createTranscriptionRoutes, createDbRoutes, createDebugRoutes } from './routes';
 import { explicitWakeWords, cancellationPhrases, visionKeywords } from './constant/wakeWords';
+import { getDeviceProfile } from './constant/deviceProfiles';
 import { SSEManager, createTranscriptionBroadcaster } from './manager/broadcast.manager';
 import { TranscriptionManager, getCleanServerUrl } from './manager/transcription.manager';
 import { notificationsManager } from './manager/notifications.manager';
 import { createTranscriptionStream } from '@mentra/sdk';
-import { UserSettings } from './schemas';
+import { UserSettings, MessageExperimentData } from './schemas';
 import { Time } from './manager/time.manager';
+import { agentStateManager } from './manager/agent-state.manager';
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 80;
 const PACKAGE_NAME = process.env.PACKAGE_NAME;
@@ -70,6 +72,7 @@ class MiraServer extends AppServer {
   private transcriptionSSEManager = new SSEManager(); // Manages transcription SSE connections
   private dbAPI: DatabaseAPI; // Database API for user settings
   private welcomeTimers = new Map<string, ReturnType<typeof setTimeout>>(); // Track welcome audio timers per session
+  private agentCleanupTimers = new Map<string, ReturnType<typeof setTimeout>>(); // Grace-period cleanup of disconnected users' agents
 
   constructor(options: any) {
     super(options);
@@ -85,6 +88,20 @@ class MiraServer extends AppServer {
       this.reloadFollowUpSettingForUser(userId);
     });
 
+    // Set up callback to apply a new personality to the user's voice and web chat agents
+    this.dbAPI.setPersonalityChangedCallback((userId: string, personality: string) => {
+      this.agentPerUser.get(userId)?.setPersonality(personality);
+      this.chatManager.setPersonalityForUser(userId, personality);
+    });
+
+    // Set up callback to listen for a new custom wake word in the user's active session
+    this.dbAPI.setWakeWordChangedCallback((userId: string, wakeWord: string) => {
+      const sessionId = this.userIdToSessionId.get(userId);
+      if (sessionId) {
+        this.transcriptionManagers.get(sessionId)?.setCustomWakeWord(wakeWord);
+      }
+    });
+
     // Set up routes after server initialization
     this.setupRoutes();
     this.setupChatRoutes();
@@ -124,11 +141,13 @@ class MiraServer extends AppServer {
 
     // Create API controllers
     const chatAPI = new ChatAPI(this.chatManager, this.transcriptionSSEManager.getConnectionsMap());
+    const debugAPI = new DebugAPI();
 
     // Mount routes
     app.use('/api/chat', createChatRoutes(chatAPI));
     app.use('/api/transcription', createTranscriptionRoutes(chatAPI));
     app.use('/api/db', createDbRoutes(this.dbAPI));
+    app.use('/api/debug', createDebugRoutes(debugAPI));
 
     logger.info('✅ Chat API routes configured with SSE support');
   }
@@ -158,6 +177,14 @@ class MiraServer extends AppServer {
 
     const cleanServerUrl = getCleanServerUrl(session.getServerUrl());
 
+    // The user reconnected within the grace period - keep their agent and chat
+    const pendingCleanup = this.agentCleanupTimers.get(userId);
+    if (pendingCleanup) {
+      clearTimeout(pendingCleanup);
+      this.agentCleanupTimers.delete(userId);
+      logger.info(`User ${userId} reconnected within grace period, cancelled agent cleanup`);
+    }
+
     // Reuse existing agent for this user or create a new one
     let agent = this.agentPerUser.get(userId);
     if (!agent) {
@@ -165,6 +192,17 @@ class MiraServer extends AppServer {
       agent = new MiraAgent(cleanServerUrl, userId, session.logger);
       this.agentPerUser.set(userId, agent);
 
+      // Rehydrate state saved when the user last disconnected (e.g. after a server restart)
+      try {
+        const savedState = await agentStateManager.loadState(userId);
+        if (savedState) {
+          agent.restoreState(savedState);
+          logger.info(`Rehydrated agent state for user ${userId}`);
+        }
+      } catch (error) {
+        logger.error(error as Error, `Failed to rehydrate agent state for user ${userId}:`);
+      }
+
       // Start fetching tools asynchronously without blocking
       getAllToolsForUser(cleanServerUrl, userId).then(tools => {
         // Append tools to agent when they're available
@@ -202,7 +240,12 @@ class MiraServer extends AppServer {
     const broadcastTranscription = createTranscriptionBroadcaster(this.transcriptionSSEManager, userId);
 
     // Create callback to save conversation turns to the database (only if chat history is enabled)
-    const onConversationTurn = async (query: string, response: string, photoTimestamp?: number) => {
+    const onConversationTurn = async (query: string, response: string, photoTimestamp?: number, experiment?: MessageExperimentData) => {
+      // Persist the agent state after every turn too, not only on a clean stop, so a server crash doesn't lose it
+      agentStateManager.saveState(userId, agent).catch((error) => {
+        logger.error(error as Error, `Failed to save agent state for user ${userId}:`);
+      });
+
       try {
         // Check if chat history is enabled for this user
         const settings = await UserSettings.findOne({ userId });
@@ -212,7 +255,7 @@ class MiraServer extends AppServer {
         }
 
         await this.dbAPI.addMessageToConversation(userId, 'user', query, photoTimestamp);
-        await this.dbAPI.addMessageToConversation(userId, 'assistant', response);
+        await this.dbAPI.addMessageToConversation(userId, 'assistant', response, undefined, experiment);
       } catch (error) {
         logger.error(error as Error, `Failed to save conversation turn for user ${userId}:`);
       }
@@ -226,7 +269,7 @@ class MiraServer extends AppServer {
     this.userIdToSessionId.set(userId, sessionId); // Track userId -> sessionId mapping
 
     // Welcome message
-    if (session.capabilities?.hasDisplay) {
+    if (getDeviceProfile(session.capabilities).hasDisplay) {
       session.layouts.showTextWall('Mentra AI\n\nWelcome to Mentra AI.\nSay "Hey Mentra" followed by your question.', { durationMs: 3000 });
     } else {
       // Camera-only glasses: play welcome audio file after a short delay
@@ -306,7 +349,7 @@ class MiraServer extends AppServer {
   }
 
   // Handle session disconnection
-  protected onStop(sessionId: string, userId: string, reason: string): Promise<void> {
+  protected async onStop(sessionId: string, userId: string, reason: string): Promise<void> {
     logger.info(`Stopping Mira service for session ${sessionId}, user ${userId}`);
 
     // Cancel pending welcome audio timer to avoid playing on a dead session
@@ -324,21 +367,52 @@ class MiraServer extends AppServer {
       this.transcriptionManagers.delete(sessionId);
     }
 
-    // Clean up userId -> sessionId mapping
-    this.userIdToSessionId.delete(userId);
+    // Clean up userId -> sessionId mapping (unless a newer session already replaced it)
+    if (this.userIdToSessionId.get(userId) === sessionId) {
+      this.userIdToSessionId.delete(userId);
+    }
 
     // Clean up agent for this session
     this.agentPerSession.delete(sessionId);
 
-    // Clean up persistent agent for this user
-    this.agentPerUser.delete(userId);
-    logger.info(`🗑️ Cleaned up persistent agent for user ${userId}`);
+    // A newer session for this user is already running - nothing else to clean up
+    if (this.userIdToSessionId.has(userId)) {
+      return;
+    }
+
+    // Persist agent state so it survives a server restart during the grace period
+    const agent = this.agentPerUser.get(userId);
+    if (agent) {
+      try {
+        await agentStateManager.saveState(userId, agent);
+      } catch (error) {
+        logger.error(error as Error, `Failed to save agent state for user ${userId}:`);
+      }
+    }
+
+    // Keep the agent and chat in memory for the grace period so a brief disconnect
+    // (e.g. a Bluetooth drop) doesn't wipe history, pending disambiguations or photos
+    const existingTimer = this.agentCleanupTimers.get(userId);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+    const gracePeriodMs = agentStateManager.getGracePeriodMs();
+    const cleanupTimer = setTimeout(() => {
+      this.agentCleanupTimers.delete(userId);
+      if (this.userIdToSessionId.has(userId)) {
+        return;
+      }
 
-    // Clean up chat history and user data when session stops
-    this.chatManager.cleanupUserOnDisconnect(userId);
-    logger.info(`🗑️ Cleaned up chat history for user ${userId}`);
+      // Clean up persistent agent for this user
+      this.agentPerUser.delete(userId);
+      logger.info(`🗑️ Cleaned up persistent agent for user ${userId}`);
 
-    return Promise.resolve();
+      // Clean up chat history and user data
+      this.chatManager.cleanupUserOnDisconnect(userId);
+      logger.info(`🗑️ Cleaned up chat history for user ${userId}`);
+    }, gracePeriodMs);
+    this.agentCleanupTimers.set(userId, cleanupTimer);
+    logger.info(`⏳ Keeping agent for user ${userId} for ${Math.round(gracePeriodMs / 1000)}s in case they reconnect`);
   }
 }
 
@@ -0,0 +1,75 @@
+import { logger as _logger } from '@mentra/sdk';
+import { AgentState } from '../schemas';
+import { isDatabaseConnected } from '../utils/db.util';
+import type { AgentStateSnapshot, MiraAgent } from '../agents/MiraAgent';
+
+const logger = _logger.child({ service: 'AgentStateManager' });
+
+// How long a disconnected user's agent state is kept (in memory and in the DB) for a reconnect
+const AGENT_STATE_GRACE_PERIOD_MS = parseInt(process.env.AGENT_STATE_GRACE_PERIOD_MS || String(10 * 60 * 1000), 10);
+
+/**
+ * Persists MiraAgent state (history, summary, pending disambiguation, location)
+ * so a brief disconnect or a server restart doesn't wipe the conversation.
+ * State expires after the grace period (MongoDB TTL index on expiresAt).
+ */
+export class AgentStateManager {
+  /**
+   * Grace period in ms before a disconnected user's state is discarded
+   */
+  getGracePeriodMs(): number {
+    return Number.isFinite(AGENT_STATE_GRACE_PERIOD_MS) && AGENT_STATE_GRACE_PERIOD_MS >= 0
+      ? AGENT_STATE_GRACE_PERIOD_MS
+      : 10 * 60 * 1000;
+  }
+
+  /**
+   * Save the agent's state for a user
+   */
+  async saveState(userId: string, agent: MiraAgent): Promise<void> {
+    if (!isDatabaseConnected()) {
+      return;
+    }
+
+    const snapshot = await agent.exportState();
+    await AgentState.findOneAndUpdate(
+      { userId },
+      {
+        $set: {
+          ...snapshot,
+          expiresAt: new Date(Date.now() + this.getGracePeriodMs()),
+        },
+      },
+      { upsert: true }
+    );
+    logger.info({ userId, turns: snapshot.conversationHistory.length }, '💾 Agent state saved');
+  }
+
+  /**
+   * Load a user's saved state if it hasn't expired
+   * @returns The snapshot, or null if there is none
+   */
+  async loadState(userId: string): Promise<Partial<AgentStateSnapshot> | null> {
+    if (!isDatabaseConnected()) {
+      return null;
+    }
+
+    // The TTL monitor only runs once a minute, so check expiry explicitly
+    const state = await AgentState.findOne({ userId, expiresAt: { $gt: new Date() } }).lean();
+    if (!state) {
+      return null;
+    }
+
+    return {
+      conversationHistory: state.conversationHistory,
+      conversationSummary: state.conversationSummary,
+      conversationSummaryUpdatedAt: state.conversationSummaryUpdatedAt,
+      pendingDisambiguation: state.pendingDisambiguation as AgentStateSnapshot['pendingDisambiguation'],
+      locationContext: (state.locationContext || undefined) as AgentStateSnapshot['locationContext'] | undefined,
+      responseModeOverride: state.responseModeOverride as AgentStateSnapshot['responseModeOverride'],
+    };
+  }
+}
+
+// Singleton instance
+export const agentStateManager = new AgentStateManager();
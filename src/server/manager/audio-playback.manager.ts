@@ -1,5 +1,8 @@
 import { AppSession, logger as _logger } from '@mentra/sdk';
-import { wrapText } from '../utils';
+import { DEFAULT_LOCALE, getBaseLanguage } from '../utils/language.util';
+import { normalizeForSpeech } from '../utils/speech-normalizer.util';
+import { DisplayPager } from './display-pager.manager';
+import { DeviceProfile, getDeviceProfile } from '../constant/deviceProfiles';
 
 const logger = _logger.child({ service: 'AudioPlaybackManager' });
 
@@ -8,6 +11,18 @@ const START_LISTENING_SOUND_URL = process.env.START_LISTENING_SOUND_URL || '';
 const CANCEL_MIRA_SOUND_URL = process.env.CANCEL_MIRA_SOUND_URL || '';
 const FOLLOW_UP_SOUND_URL = process.env.FOLLOW_UP_SOUND_URL || '';
 
+// Optional per-language TTS voices, e.g. "es:voiceId,fr:voiceId" (unlisted languages use the default voice)
+const TTS_VOICE_IDS: Record<string, string> = Object.fromEntries(
+  (process.env.TTS_VOICE_IDS || '')
+    .split(',')
+    .map(entry => entry.split(':').map(part => part.trim()))
+    .filter(([language, voiceId]) => language && voiceId)
+    .map(([language, voiceId]) => [language.toLowerCase(), voiceId])
+);
+
+// Minimum gap between progressive text wall updates while an answer streams in
+const STREAMING_DISPLAY_INTERVAL_MS = 250;
+
 /**
  * Manages audio playback and text-to-speech for the session
  */
@@ -15,18 +30,35 @@ export class AudioPlaybackManager {
   private session: AppSession;
   private sessionId: string;
   private isShuttingDown: boolean = false;
+  private lastStreamingDisplayAt: number = 0;
+  private locale: string = DEFAULT_LOCALE;
+  private pager: DisplayPager;
 
   constructor(session: AppSession, sessionId: string) {
     this.session = session;
     this.sessionId = sessionId;
+    this.pager = new DisplayPager(session);
+  }
+
+  /**
+   * The connected glasses' profile (capabilities can change mid-session, so it is not cached)
+   */
+  private getDeviceProfile(): DeviceProfile {
+    return getDeviceProfile(this.session.capabilities);
+  }
+
+  /**
+   * Earcons and answers are heard if the user wants speech or the glasses can't show text
+   */
+  private shouldPlayAudio(): boolean {
+    return !!this.session.settings.get<boolean>("speak_response") || this.getDeviceProfile().alwaysSpeak;
   }
 
   /**
    * Play the start listening sound effect
    */
   async playStartListening(): Promise<void> {
-    const hasScreen = this.session.capabilities?.hasDisplay;
-    if (this.session.settings.get<boolean>("speak_response") || !hasScreen) {
+    if (this.shouldPlayAudio()) {
       try {
         await this.session.audio.playAudio({ audioUrl: START_LISTENING_SOUND_URL });
       } catch (err) {
@@ -39,8 +71,7 @@ export class AudioPlaybackManager {
    * Play the cancellation sound effect
    */
   async playCancellation(): Promise<void> {
-    const hasScreen = this.session.capabilities?.hasDisplay;
-    if (this.session.settings.get<boolean>("speak_response") || !hasScreen) {
+    if (this.shouldPlayAudio()) {
       try {
         await this.session.audio.playAudio({ audioUrl: CANCEL_MIRA_SOUND_URL });
       } catch (err) {
@@ -54,8 +85,7 @@ export class AudioPlaybackManager {
    * Uses the activation sound (START_LISTENING_SOUND_URL) by default, or FOLLOW_UP_SOUND_URL if set
    */
   async playFollowUp(): Promise<void> {
-    const hasScreen = this.session.capabilities?.hasDisplay;
-    if (this.session.settings.get<boolean>("speak_response") || !hasScreen) {
+    if (this.shouldPlayAudio()) {
       try {
         const soundUrl = FOLLOW_UP_SOUND_URL || START_LISTENING_SOUND_URL;
         if (soundUrl) {
@@ -72,9 +102,8 @@ export class AudioPlaybackManager {
    */
   async playProcessingSounds(): Promise<() => void> {
     let isRunning = true;
-    const hasScreen = this.session.capabilities?.hasDisplay;
 
-    if (this.session.settings.get<boolean>("speak_response") || !hasScreen) {
+    if (this.shouldPlayAudio()) {
       // Chain 5 processing sounds
       const playChain = async () => {
         for (let i = 1; i <= 5 && isRunning; i++) {
@@ -96,9 +125,12 @@ export class AudioPlaybackManager {
   }
 
   /**
-   * Show text on display and optionally speak it
+   * Show text on display and optionally speak it.
+   * Text longer than one screen is shown as pages (see DisplayPager).
+   * @param text - Text shown on the display, as-is
+   * @param speechText - Text spoken by TTS (defaults to the displayed text), normalized to words first
    */
-  async showOrSpeakText(text: string): Promise<void> {
+  async showOrSpeakText(text: string, speechText: string = text): Promise<void> {
     // Check if session is shutting down
     if (this.isShuttingDown) {
       logger.warn(`Session shutting down, skipping message: ${text.substring(0, 50)}`);
@@ -111,15 +143,11 @@ export class AudioPlaybackManager {
       return;
     }
 
-    try {
-      this.session.layouts.showTextWall(wrapText(text, 30), { durationMs: 5000 });
-    } catch (error) {
-      logger.error(error, `Failed to show text wall`);
-      return;
+    if (this.getDeviceProfile().hasDisplay) {
+      this.pager.show(text);
     }
 
-    const hasScreen = this.session.capabilities?.hasDisplay;
-    if (this.session.settings.get<boolean>("speak_response") || !hasScreen) {
+    if (this.shouldPlayAudio()) {
       // Double-check connection state before speaking
       if (this.isShuttingDown || (this.session as any).ws?.readyState !== 1) {
         logger.warn(`Session unavailable before speaking, skipping audio`);
@@ -127,8 +155,9 @@ export class AudioPlaybackManager {
       }
 
       try {
-        const result = await this.session.audio.speak(text, { 
+        const result = await this.session.audio.speak(normalizeForSpeech(speechText, this.locale), {
           stopOtherAudio: true,
+          voice_id: TTS_VOICE_IDS[getBaseLanguage(this.locale)],
           voice_settings: {
             stability: 0.8,
             speed: 1.1
@@ -143,10 +172,124 @@ export class AudioPlaybackManager {
     }
   }
 
+  /**
+   * Progressively show a partial answer while it is still streaming.
+   * Updates are throttled; the complete answer is shown (and spoken) by showOrSpeakText.
+   */
+  showStreamingText(partialText: string): void {
+    if (this.isShuttingDown || (this.session as any).ws?.readyState !== 1 || !this.getDeviceProfile().hasDisplay) {
+      return;
+    }
+
+    const now = Date.now();
+    if (now - this.lastStreamingDisplayAt < STREAMING_DISPLAY_INTERVAL_MS) {
+      return;
+    }
+    this.lastStreamingDisplayAt = now;
+
+    try {
+      // Long partial answers scroll: only the newest page is shown
+      this.session.layouts.showTextWall(this.pager.lastPage(partialText), { durationMs: 5000 });
+    } catch (error) {
+      logger.error(error, `Failed to show streaming text wall`);
+    }
+  }
+
+  /**
+   * Show a short status message (listening, processing, errors) on glasses with a display
+   */
+  showStatusText(text: string, durationMs: number): void {
+    if (this.isShuttingDown || !this.getDeviceProfile().hasDisplay) {
+      return;
+    }
+
+    try {
+      this.session.layouts.showTextWall(text, { durationMs });
+    } catch (error) {
+      logger.error(error, `Failed to show status text`);
+    }
+  }
+
+  /**
+   * Match the page size to the live transcript display's line metrics
+   */
+  setPageSize(charsPerLine: number, linesPerPage: number): void {
+    this.pager.setPageSize(charsPerLine, linesPerPage);
+  }
+
+  /**
+   * Whether a multi-page answer is on the display
+   */
+  isPaging(): boolean {
+    return this.pager.isActive();
+  }
+
+  /**
+   * Show the next page of the answer. Returns false if there is none.
+   */
+  nextPage(): boolean {
+    return this.pager.next();
+  }
+
+  /**
+   * Show the previous page of the answer. Returns false if there is none.
+   */
+  previousPage(): boolean {
+    return this.pager.previous();
+  }
+
+  /**
+   * Stop advancing pages (e.g. a new query started)
+   */
+  stopPaging(): void {
+    this.pager.stop();
+  }
+
+  /**
+   * Clear whatever is shown on the display (e.g. the query was cancelled)
+   */
+  clearDisplay(): void {
+    this.pager.stop();
+    if (this.isShuttingDown || !this.getDeviceProfile().hasDisplay) {
+      return;
+    }
+
+    try {
+      this.session.layouts.clearView();
+    } catch (error) {
+      logger.warn(error as Error, `[Session ${this.sessionId}]: Failed to clear display`);
+    }
+  }
+
+  /**
+   * Stop any speech or sound currently playing (e.g. the query was cancelled)
+   */
+  stopSpeaking(): void {
+    if (this.isShuttingDown || (this.session as any).ws?.readyState !== 1) {
+      return;
+    }
+
+    try {
+      this.session.audio.stopAudio();
+    } catch (error) {
+      logger.warn(error as Error, `[Session ${this.sessionId}]: Failed to stop audio`);
+    }
+  }
+
+  /**
+   * Set the language of upcoming speech (selects the TTS voice)
+   */
+  setLocale(locale: string): void {
+    this.locale = locale;
+  }
+
   /**
    * Set shutdown flag to prevent audio operations during cleanup
    */
   setShuttingDown(value: boolean): void {
     this.isShuttingDown = value;
+    if (value) {
+      this.pager.stop();
+    }
   }
 }
@@ -2,6 +2,7 @@ import { WebSocket } from 'ws';
 import { v4 as uuidv4 } from 'uuid';
 import { MiraAgent } from '../agents';
 import type { Response } from 'express';
+import { resolveQueryLocale } from '../utils/language.util';
 
 interface ChatMessage {
   id: string;
@@ -47,6 +48,13 @@ export class ChatManager {
     return userId1 < userId2 ? `${userId1}:${userId2}` : `${userId2}:${userId1}`;
   }
 
+  /**
+   * Apply a new personality to the user's web chat agent, if one exists
+   */
+  setPersonalityForUser(userId: string, personality: string): void {
+    this.agents.get(userId)?.setPersonality(personality);
+  }
+
   /**
    * Get or create MiraAgent for a user
    */
@@ -98,7 +106,7 @@ export class ChatManager {
   /**
    * Add a message to the conversation and broadcast to both users
    */
-  private addMessage(senderId: string, recipientId: string, content: string, image?: string): void {
+  private addMessage(senderId: string, recipientId: string, content: string, image?: string): string {
     const conversationId = this.getConversationId(senderId, recipientId);
 
     if (!this.conversations.has(conversationId)) {
@@ -122,6 +130,8 @@ export class ChatManager {
     // Broadcast to both sender and recipient
     this.broadcastMessage(senderId, message);
     this.broadcastMessage(recipientId, message);
+
+    return message.id;
   }
 
   /**
@@ -175,15 +185,37 @@ export class ChatManager {
       // Get agent for this user
       const agent = this.getAgentForUser(userId);
 
+      // Stream the answer into a single assistant message as it is generated
+      let streamingMessageId: string | undefined;
+      const onAnswerStream = (partialAnswer: string) => {
+        if (!streamingMessageId) {
+          streamingMessageId = this.startAssistantMessage(userId, partialAnswer);
+        } else {
+          this.updateAssistantMessage(userId, streamingMessageId, partialAnswer);
+        }
+      };
+
       // Process the message with MiraAgent
       const response = await agent.handleContext({
         query: messageContent,
-        photo: null // No photo support in web chat for now
+        photo: null, // No photo support in web chat for now
+        onAnswerStream,
+        locale: resolveQueryLocale(messageContent),
       });
 
       // Add assistant response
-      const responseContent = typeof response === 'string' ? response : 'I processed your request.';
-      this.addMessage(aiRecipientId, userId, responseContent);
+      let responseContent = 'I processed your request.';
+      if (typeof response === 'string') {
+        responseContent = response;
+      } else if (response && typeof response.answer === 'string') {
+        responseContent = response.answer;
+      }
+
+      if (streamingMessageId) {
+        this.updateAssistantMessage(userId, streamingMessageId, responseContent);
+      } else {
+        this.addMessage(aiRecipientId, userId, responseContent);
+      }
     } catch (error) {
       console.error('Error processing message:', error);
 
@@ -270,10 +302,101 @@ export class ChatManager {
 
   /**
    * Add an assistant message (Mira's response) to the chat
+   * Returns the message ID
+   */
+  addAssistantMessage(userId: string, content: string): string {
+    const aiSenderId = 'mira-assistant';
+    return this.addMessage(aiSenderId, userId, content);
+  }
+
+  /**
+   * Start a streaming assistant message and return its ID.
+   * Further chunks are sent with updateAssistantMessage as message_update events.
+   */
+  startAssistantMessage(userId: string, content: string): string {
+    const aiSenderId = 'mira-assistant';
+    const conversationId = this.getConversationId(aiSenderId, userId);
+
+    if (!this.conversations.has(conversationId)) {
+      this.conversations.set(conversationId, {
+        messages: []
+      });
+    }
+
+    const message: ChatMessage = {
+      id: uuidv4(),
+      senderId: aiSenderId,
+      recipientId: userId,
+      content,
+      timestamp: new Date()
+    };
+
+    this.conversations.get(conversationId)!.messages.push(message);
+
+    this.broadcastMessage(aiSenderId, message);
+    this.broadcastMessage(userId, message);
+
+    return message.id;
+  }
+
+  /**
+   * Replace the content of a streaming assistant message
    */
-  addAssistantMessage(userId: string, content: string): void {
+  updateAssistantMessage(userId: string, messageId: string, content: string): boolean {
     const aiSenderId = 'mira-assistant';
-    this.addMessage(aiSenderId, userId, content);
+    const conversationId = this.getConversationId(aiSenderId, userId);
+
+    const message = this.conversations.get(conversationId)?.messages.find(m => m.id === messageId);
+    if (!message) {
+      console.warn(`[ChatManager] ⚠️ Assistant message ${messageId} not found in conversation ${conversationId}`);
+      return false;
+    }
+
+    message.content = content;
+
+    this.broadcastMessage(aiSenderId, message, true);
+    this.broadcastMessage(userId, message, true);
+
+    return true;
+  }
+
+  /**
+   * Remove a message from the user's chat with Mira (e.g. a voice query that was cancelled)
+   */
+  removeMessage(userId: string, messageId: string): boolean {
+    const aiRecipientId = 'mira-assistant';
+    const conversationId = this.getConversationId(userId, aiRecipientId);
+
+    const conversationData = this.conversations.get(conversationId);
+    const messageIndex = conversationData?.messages.findIndex(m => m.id === messageId) ?? -1;
+    if (!conversationData || messageIndex === -1) {
+      return false;
+    }
+    conversationData.messages.splice(messageIndex, 1);
+
+    const userData = this.userConnections.get(userId);
+    if (!userData) {
+      return true;
+    }
+
+    const deleteData = JSON.stringify({ type: 'message_delete', id: messageId });
+
+    userData.ws.forEach((ws: WebSocket) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(deleteData);
+      }
+    });
+
+    const sseData = `data: ${deleteData}\n\n`;
+    userData.sse.forEach((res: Response) => {
+      try {
+        res.write(sseData);
+      } catch (error) {
+        console.error('[ChatManager] Error writing message delete to SSE:', error);
+      }
+    });
+
+    return true;
   }
 
   /**
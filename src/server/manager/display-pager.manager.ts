@@ -0,0 +1,159 @@
+import { AppSession, logger as _logger } from '@mentra/sdk';
+import { wrapText } from '../utils';
+
+const logger = _logger.child({ service: 'DisplayPager' });
+
+// How long a page stays up before the next one is shown: a reading-pace estimate with a floor
+const DISPLAY_PAGE_MIN_DURATION_MS = parseInt(process.env.DISPLAY_PAGE_MIN_DURATION_MS || '4000', 10);
+const DISPLAY_PAGE_MS_PER_WORD = 350;
+
+// Spoken page commands (matched against a whole final transcript, no wake word needed)
+const NEXT_PAGE_PATTERN = /^(next|next page|next one|continue|keep going|more|show more)$/i;
+const PREVIOUS_PAGE_PATTERN = /^(back|go back|previous|previous page)$/i;
+
+export type PageCommand = 'next' | 'previous';
+
+/**
+ * Recognize a spoken page command ("next", "go back")
+ */
+export function parsePageCommand(text: string): PageCommand | null {
+  const cleaned = text.trim().replace(/[.,!?]+$/g, '').toLowerCase();
+  if (NEXT_PAGE_PATTERN.test(cleaned)) return 'next';
+  if (PREVIOUS_PAGE_PATTERN.test(cleaned)) return 'previous';
+  return null;
+}
+
+/**
+ * Shows text that doesn't fit on one screen as a sequence of text walls.
+ * Pages advance on a timer, or manually through next()/previous()
+ * (head-up movement or a spoken "next").
+ */
+export class DisplayPager {
+  private session: AppSession;
+  private charsPerLine: number;
+  private linesPerPage: number;
+  private pages: string[] = [];
+  private pageIndex: number = 0;
+  private pageTimeoutId?: NodeJS.Timeout;
+
+  constructor(session: AppSession, charsPerLine: number = 30, linesPerPage: number = 3) {
+    this.session = session;
+    this.charsPerLine = charsPerLine;
+    this.linesPerPage = linesPerPage;
+  }
+
+  /**
+   * Use the same line metrics as the live transcript display
+   */
+  setPageSize(charsPerLine: number, linesPerPage: number): void {
+    this.charsPerLine = charsPerLine;
+    this.linesPerPage = linesPerPage;
+  }
+
+  /**
+   * Split wrapped text into pages of linesPerPage lines
+   */
+  paginate(text: string): string[] {
+    const lines = wrapText(text, this.charsPerLine).split('\n').filter(line => line.trim());
+    const pages: string[] = [];
+    for (let i = 0; i < lines.length; i += this.linesPerPage) {
+      pages.push(lines.slice(i, i + this.linesPerPage).join('\n'));
+    }
+    return pages.length > 0 ? pages : [''];
+  }
+
+  /**
+   * The last page's worth of wrapped text (for progressively shown, still-growing text)
+   */
+  lastPage(text: string): string {
+    const pages = this.paginate(text);
+    return pages[pages.length - 1];
+  }
+
+  /**
+   * Show text from its first page, replacing anything currently paged
+   */
+  show(text: string): void {
+    this.stop();
+    this.pages = this.paginate(text);
+    this.pageIndex = 0;
+    this.render();
+  }
+
+  /**
+   * Go to the next page. Returns false if there is none.
+   */
+  next(): boolean {
+    if (!this.isActive() || this.pageIndex >= this.pages.length - 1) {
+      return false;
+    }
+    this.pageIndex++;
+    this.render();
+    return true;
+  }
+
+  /**
+   * Go back a page. Returns false if there is none.
+   */
+  previous(): boolean {
+    if (!this.isActive() || this.pageIndex === 0) {
+      return false;
+    }
+    this.pageIndex--;
+    this.render();
+    return true;
+  }
+
+  /**
+   * Whether multi-page text is being shown
+   */
+  isActive(): boolean {
+    return this.pages.length > 1;
+  }
+
+  /**
+   * Stop paging (the current page stays up until its text wall expires)
+   */
+  stop(): void {
+    if (this.pageTimeoutId) {
+      clearTimeout(this.pageTimeoutId);
+      this.pageTimeoutId = undefined;
+    }
+    this.pages = [];
+    this.pageIndex = 0;
+  }
+
+  private render(): void {
+    if (this.pageTimeoutId) {
+      clearTimeout(this.pageTimeoutId);
+      this.pageTimeoutId = undefined;
+    }
+
+    const page = this.pages[this.pageIndex];
+    const isLastPage = this.pageIndex === this.pages.length - 1;
+    const words = page.split(/\s+/).filter(Boolean).length;
+    const durationMs = Math.max(DISPLAY_PAGE_MIN_DURATION_MS, words * DISPLAY_PAGE_MS_PER_WORD);
+
+    // Multi-page text gets a page indicator line
+    const text = this.pages.length > 1 ? `${page}\n(${this.pageIndex + 1}/${this.pages.length})` : page;
+
+    const wallDurationMs = isLastPage ? Math.max(durationMs, 5000) : durationMs + 1000;
+    try {
+      // Each page stays up a little longer than its timer, so a late page turn doesn't blank the display
+      this.session.layouts.showTextWall(text, { durationMs: wallDurationMs });
+    } catch (error) {
+      logger.error(error, `Failed to show page ${this.pageIndex + 1}/${this.pages.length}`);
+      return;
+    }
+
+    this.pageTimeoutId = setTimeout(() => {
+      this.pageTimeoutId = undefined;
+      if (isLastPage) {
+        // The last page has expired: page commands no longer apply
+        this.stop();
+      } else {
+        this.next();
+      }
+    }, isLastPage ? wallDurationMs : durationMs);
+  }
+}
@@ -0,0 +1,208 @@
+import { logger as _logger } from '@mentra/sdk';
+
+const logger = _logger.child({ service: 'HedgeManager' });
+
+// Send a second (hedge) request only if the first hasn't answered within LLM_HEDGE_DELAY_MS
+const LLM_HEDGE_ENABLED = process.env.LLM_HEDGE_ENABLED !== 'false';
+const LLM_HEDGE_DELAY_MS = parseInt(process.env.LLM_HEDGE_DELAY_MS || '2500', 10);
+
+export interface HedgePolicy {
+  enabled: boolean;
+  delayMs: number;
+}
+
+export type HedgeAttempt = 'primary' | 'hedge';
+
+interface HedgeStats {
+  totalRequests: number;
+  hedgedRequests: number;   // Requests where the hedge was actually sent
+  primaryWins: number;
+  hedgeWins: number;
+  failures: number;         // Requests where every attempt failed
+  cancelledRequests: number; // Losing requests aborted after the winner answered
+  totalLatencyMs: number;
+  lastUpdated: number;
+}
+
+/**
+ * Get the hedging policy from the environment
+ */
+export function getHedgePolicy(): HedgePolicy {
+  return {
+    enabled: LLM_HEDGE_ENABLED,
+    delayMs: Number.isFinite(LLM_HEDGE_DELAY_MS) && LLM_HEDGE_DELAY_MS >= 0 ? LLM_HEDGE_DELAY_MS : 2500,
+  };
+}
+
+/**
+ * Runs LLM requests with a hedging policy and keeps per-user statistics.
+ *
+ * The primary request starts immediately. If it hasn't answered after `delayMs`
+ * (or fails before that), an identical hedge request is sent. The first successful
+ * response wins and the other request is aborted via its AbortSignal.
+ */
+export class HedgeManager {
+  private statsPerUser = new Map<string, HedgeStats>();
+
+  /**
+   * Run a request with hedging
+   * @param userId - User the request is accounted to
+   * @param run - Starts one attempt; must honor the given AbortSignal
+   * @param policy - Hedging policy (defaults to the environment policy)
+   * @param signal - Cancels every attempt (e.g. the query was superseded)
+   */
+  invoke<T>(
+    userId: string,
+    run: (signal: AbortSignal) => Promise<T>,
+    policy: HedgePolicy = getHedgePolicy(),
+    signal?: AbortSignal,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const startTime = Date.now();
+      const attempts: { attempt: HedgeAttempt; controller: AbortController }[] = [];
+      let settled = false;
+      let failedAttempts = 0;
+      let hedgeTimer: NodeJS.Timeout | undefined;
+
+      // The caller gave up — stop every in-flight attempt without counting it as a failure
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(hedgeTimer);
+        attempts.forEach(a => a.controller.abort());
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const launch = (attempt: HedgeAttempt) => {
+        const controller = new AbortController();
+        attempts.push({ attempt, controller });
+
+        run(controller.signal)
+          .then((result) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(hedgeTimer);
+            signal?.removeEventListener('abort', onAbort);
+
+            // Cancel the slower request so we stop paying for it
+            const losers = attempts.filter(a => a.controller !== controller);
+            losers.forEach(a => a.controller.abort());
+
+            this.recordOutcome(userId, {
+              winner: attempt,
+              hedged: attempts.length > 1,
+              cancelled: losers.length,
+              latencyMs: Date.now() - startTime,
+            });
+            resolve(result);
+          })
+          .catch((error) => {
+            if (settled) return;
+            failedAttempts++;
+
+            // Primary failed before the hedge fired — send the hedge right away
+            if (attempt === 'primary' && attempts.length === 1 && policy.enabled) {
+              clearTimeout(hedgeTimer);
+              launch('hedge');
+              return;
+            }
+
+            if (failedAttempts >= attempts.length) {
+              settled = true;
+              clearTimeout(hedgeTimer);
+              signal?.removeEventListener('abort', onAbort);
+              this.recordOutcome(userId, {
+                winner: null,
+                hedged: attempts.length > 1,
+                cancelled: 0,
+                latencyMs: Date.now() - startTime,
+              });
+              reject(error);
+            }
+          });
+      };
+
+      launch('primary');
+
+      if (policy.enabled) {
+        hedgeTimer = setTimeout(() => {
+          if (!settled && attempts.length === 1) {
+            launch('hedge');
+          }
+        }, policy.delayMs);
+      }
+    });
+  }
+
+  /**
+   * Record the outcome of one hedged request
+   */
+  private recordOutcome(
+    userId: string,
+    outcome: { winner: HedgeAttempt | null; hedged: boolean; cancelled: number; latencyMs: number },
+  ): void {
+    let stats = this.statsPerUser.get(userId);
+    if (!stats) {
+      stats = {
+        totalRequests: 0,
+        hedgedRequests: 0,
+        primaryWins: 0,
+        hedgeWins: 0,
+        failures: 0,
+        cancelledRequests: 0,
+        totalLatencyMs: 0,
+        lastUpdated: 0,
+      };
+      this.statsPerUser.set(userId, stats);
+    }
+
+    stats.totalRequests++;
+    if (outcome.hedged) stats.hedgedRequests++;
+    if (outcome.winner === 'primary') stats.primaryWins++;
+    else if (outcome.winner === 'hedge') stats.hedgeWins++;
+    else stats.failures++;
+    stats.cancelledRequests += outcome.cancelled;
+    stats.totalLatencyMs += outcome.latencyMs;
+    stats.lastUpdated = Date.now();
+
+    if (outcome.winner === 'hedge') {
+      logger.debug({ userId, latencyMs: outcome.latencyMs }, 'Hedge request won');
+    }
+  }
+
+  /**
+   * Get hedge statistics for a user, including derived rates
+   */
+  getStats(userId: string) {
+    const stats = this.statsPerUser.get(userId);
+    if (!stats) {
+      return null;
+    }
+
+    return {
+      ...stats,
+      // Share of requests that cost a second LLM call
+      hedgeRate: stats.totalRequests > 0 ? stats.hedgedRequests / stats.totalRequests : 0,
+      // Share of hedged requests where the hedge was faster
+      hedgeWinRate: stats.hedgedRequests > 0 ? stats.hedgeWins / stats.hedgedRequests : 0,
+      averageLatencyMs: stats.totalRequests > 0 ? Math.round(stats.totalLatencyMs / stats.totalRequests) : 0,
+      policy: getHedgePolicy(),
+    };
+  }
+
+  /**
+   * Clear statistics for a user
+   */
+  clearStats(userId: string): void {
+    this.statsPerUser.delete(userId);
+  }
+}
+
+// Singleton instance
+export const hedgeManager = new HedgeManager();
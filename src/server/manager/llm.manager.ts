@@ -2,6 +2,8 @@ import { ChatOpenAI } from "@langchain/openai";
 import { AzureChatOpenAI } from "@langchain/openai";
 import { ChatAnthropic } from "@langchain/anthropic";
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { providerHealthManager } from "./provider-health.manager";
+import { MockChatModel } from "../utils/mock-llm.util";
 
 const AZURE_OPENAI_API_KEY = process.env.AZURE_OPENAI_API_KEY || "";
 const AZURE_OPENAI_API_INSTANCE_NAME = process.env.AZURE_OPENAI_API_INSTANCE_NAME || "";
@@ -10,6 +12,14 @@ const AZURE_OPENAI_API_VERSION = process.env.AZURE_OPENAI_API_VERSION || "2023-0
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
 const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || "";
 const GEMINI_API_KEY = process.env.GEMENI_API_KEY || "";
+// Any OpenAI-compatible server (Ollama, llama.cpp server, vLLM), e.g. http://localhost:11434/v1
+const LOCAL_LLM_BASE_URL = (process.env.LOCAL_LLM_BASE_URL || "").replace(/\/+$/, "");
+const LOCAL_LLM_MODEL = process.env.LOCAL_LLM_MODEL || "";
+// Most local servers ignore the key, but the OpenAI client requires one
+const LOCAL_LLM_API_KEY = process.env.LOCAL_LLM_API_KEY || "local";
+// auto (probe the server once) | true | false
+const LOCAL_LLM_TOOL_CALLING = (process.env.LOCAL_LLM_TOOL_CALLING || "auto").toLowerCase();
+const LOCAL_LLM_PROBE_TIMEOUT_MS = 15000;
 
 // LLM Configuration
 export enum LLMModel {
@@ -24,15 +34,242 @@ export enum LLMService {
   OPENAI = 'openai',
   ANTHROPIC = 'anthropic',
   GEMINI = 'gemini',
+  LOCAL = 'local',
+  // Replays fixtures (MOCK_LLM_FIXTURES) — for offline tests only
+  MOCK = 'mock',
 }
 
 export const LLM_MODEL = process.env.LLM_MODEL || LLMModel.GPT4;
 export const LLM_PROVIDER = process.env.LLM_PROVIDER || LLMService.AZURE;
+// Stream answer tokens to the webview/glasses as they arrive (set to "false" to disable)
+export const LLM_STREAMING_ENABLED = process.env.LLM_STREAMING_ENABLED !== 'false';
+// Providers to try, in order, when LLM_PROVIDER fails (comma separated, e.g. "openai,anthropic,gemini").
+// Unknown names are dropped at startup so a typo doesn't break the healthy providers.
+export const LLM_FALLBACK_PROVIDERS = (process.env.LLM_FALLBACK_PROVIDERS || '')
+  .split(',')
+  .map(p => p.trim().toLowerCase())
+  .filter(Boolean)
+  .filter(name => {
+    const known = Object.values(LLMService).includes(name as LLMService);
+    if (!known) {
+      console.warn(`[LLMProvider] Ignoring unknown provider "${name}" in LLM_FALLBACK_PROVIDERS`);
+    }
+    return known;
+  }) as LLMService[];
+
+// Model used by a provider when it isn't LLM_PROVIDER (LLM_MODEL is usually only valid for the primary)
+const FALLBACK_MODELS: Record<LLMService, string> = {
+  [LLMService.AZURE]: process.env.AZURE_FALLBACK_MODEL || LLMModel.GPT4_MINI,
+  [LLMService.OPENAI]: process.env.OPENAI_FALLBACK_MODEL || LLMModel.GPT4_MINI,
+  [LLMService.ANTHROPIC]: process.env.ANTHROPIC_FALLBACK_MODEL || 'claude-3-5-haiku-latest',
+  [LLMService.GEMINI]: process.env.GEMINI_FALLBACK_MODEL || 'gemini-2.0-flash',
+  [LLMService.LOCAL]: LOCAL_LLM_MODEL,
+  [LLMService.MOCK]: 'mock',
+};
+
+// Result of the one-time tool-calling probe against the local endpoint
+let localToolCallingSupport: Promise<boolean> | null = null;
+
+/**
+ * A specific provider + model to try before the fallback chain (e.g. the user's chosen model)
+ */
+export interface PreferredModel {
+  provider: LLMService;
+  model: string;
+}
+
+/**
+ * Health key of a preferred model. Its failures are tracked apart from its provider,
+ * so a bad model id doesn't open the circuit for everyone else using that provider.
+ */
+function preferredModelKey({ provider, model }: PreferredModel): string {
+  return `${provider}/${model}`;
+}
 
 export class LLMProvider {
+  /**
+   * Get a chat model from the first available provider in the fallback chain
+   */
   static getLLM(maxTokens: number = 300) {
-    const model = typeof LLM_MODEL === 'string' ? LLM_MODEL as LLMModel : LLM_MODEL;
-    const provider = LLM_PROVIDER || LLMService.AZURE;
+    const [first] = LLMProvider.getAvailableProviders();
+    return LLMProvider.createLLM(first, maxTokens);
+  }
+
+  /**
+   * The ordered fallback chain: LLM_PROVIDER first, then LLM_FALLBACK_PROVIDERS.
+   * Providers without credentials are left out. The mock provider never shares the chain:
+   * as the primary it is the only provider, and it is never a fallback.
+   */
+  static getProviderChain(): LLMService[] {
+    const chain: LLMService[] = [];
+    const primary = LLM_PROVIDER || LLMService.AZURE;
+    if (!Object.values(LLMService).includes(primary as LLMService)) {
+      throw new Error(`Unsupported LLM provider: ${primary}`);
+    }
+    if (primary === LLMService.MOCK) {
+      // Tests run on the mock fully offline, so no real provider may be called alongside it
+      return [LLMService.MOCK];
+    }
+    for (const provider of [primary as LLMService, ...LLM_FALLBACK_PROVIDERS]) {
+      if (provider === LLMService.MOCK) {
+        continue;
+      }
+      if (!chain.includes(provider) && (chain.length === 0 || LLMProvider.isConfigured(provider))) {
+        chain.push(provider);
+      }
+    }
+    return chain;
+  }
+
+  /**
+   * The fallback chain without providers whose circuit is open.
+   * If every circuit is open the full chain is returned — trying is better than failing outright.
+   */
+  static getAvailableProviders(): LLMService[] {
+    const chain = LLMProvider.getProviderChain();
+    const available = chain.filter(provider => providerHealthManager.isAvailable(provider));
+    return available.length > 0 ? available : chain;
+  }
+
+  /**
+   * Run an LLM request, retrying it on the next provider in the chain if it fails.
+   * Every attempt is recorded in the provider's health, which drives the circuit breaker.
+   * The preferred model's attempts are recorded under the model instead, and its provider's
+   * default model is still tried if it fails.
+   * @param maxTokens - Max output tokens for the model
+   * @param run - Sends the request with the given model
+   * @param signal - Stops the fallback chain (an aborted request is not a provider failure)
+   * @param preferred - Model to try first; skipped if its provider isn't in the chain or its (or the model's) circuit is open
+   */
+  static async withFallback<T>(
+    maxTokens: number,
+    run: (llm: ReturnType<typeof LLMProvider.createLLM>, provider: LLMService) => Promise<T>,
+    signal?: AbortSignal,
+    preferred?: PreferredModel,
+  ): Promise<T> {
+    // healthKey: where the attempt's outcome is recorded (the provider, or the preferred model)
+    const attempts: { provider: LLMService; model?: string; healthKey: string }[] = [];
+    if (
+      preferred &&
+      LLMProvider.getProviderChain().includes(preferred.provider) &&
+      providerHealthManager.isAvailable(preferred.provider) &&
+      providerHealthManager.isAvailable(preferredModelKey(preferred))
+    ) {
+      attempts.push({ ...preferred, healthKey: preferredModelKey(preferred) });
+    }
+    for (const provider of LLMProvider.getAvailableProviders()) {
+      attempts.push({ provider, healthKey: provider });
+    }
+
+    let lastError: unknown;
+    for (const [index, { provider, model, healthKey }] of attempts.entries()) {
+      signal?.throwIfAborted();
+      const startTime = Date.now();
+      try {
+        const result = await run(LLMProvider.createLLM(provider, maxTokens, model), provider);
+        providerHealthManager.recordSuccess(healthKey, Date.now() - startTime);
+        return result;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        providerHealthManager.recordFailure(healthKey, error);
+        lastError = error;
+        const next = attempts[index + 1];
+        console.warn(`[LLMProvider] ${provider}${model ? ` (${model})` : ''} failed (${error instanceof Error ? error.message : error})${next ? `, retrying on ${next.provider}` : ''}`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Whether the credentials for a provider are set
+   */
+  static isConfigured(provider: LLMService): boolean {
+    switch (provider) {
+      case LLMService.AZURE:
+        return !!(AZURE_OPENAI_API_KEY && AZURE_OPENAI_API_INSTANCE_NAME && AZURE_OPENAI_API_DEPLOYMENT_NAME);
+      case LLMService.OPENAI:
+        return !!OPENAI_API_KEY;
+      case LLMService.ANTHROPIC:
+        return !!ANTHROPIC_API_KEY;
+      case LLMService.GEMINI:
+        return !!GEMINI_API_KEY;
+      case LLMService.LOCAL:
+        return !!(LOCAL_LLM_BASE_URL && LOCAL_LLM_MODEL);
+      case LLMService.MOCK:
+        return true;
+    }
+  }
+
+  /**
+   * Whether a provider's model can be given tools.
+   * Hosted providers always can; for the local endpoint this follows LOCAL_LLM_TOOL_CALLING,
+   * probing the server once when it is "auto".
+   */
+  static supportsToolCalling(provider: LLMService): Promise<boolean> {
+    if (provider !== LLMService.LOCAL) {
+      return Promise.resolve(true);
+    }
+    if (LOCAL_LLM_TOOL_CALLING === 'true' || LOCAL_LLM_TOOL_CALLING === 'false') {
+      return Promise.resolve(LOCAL_LLM_TOOL_CALLING === 'true');
+    }
+    if (!localToolCallingSupport) {
+      localToolCallingSupport = LLMProvider.probeLocalToolCalling();
+    }
+    return localToolCallingSupport;
+  }
+
+  /**
+   * Ask the local endpoint to call a trivial tool. Servers or models without tool support
+   * either reject the request or answer in plain text.
+   */
+  private static async probeLocalToolCalling(): Promise<boolean> {
+    try {
+      const response = await fetch(`${LOCAL_LLM_BASE_URL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${LOCAL_LLM_API_KEY}`,
+        },
+        body: JSON.stringify({
+          model: LOCAL_LLM_MODEL,
+          messages: [{ role: 'user', content: 'What time is it? Use the get_time tool.' }],
+          tools: [{
+            type: 'function',
+            function: {
+              name: 'get_time',
+              description: 'Get the current time',
+              parameters: { type: 'object', properties: {} },
+            },
+          }],
+          max_tokens: 50,
+          temperature: 0,
+        }),
+        signal: AbortSignal.timeout(LOCAL_LLM_PROBE_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        console.warn(`[LLMProvider] Local endpoint rejected tools (${response.status}), running without tool calling`);
+        return false;
+      }
+
+      const data = await response.json();
+      const supported = (data?.choices?.[0]?.message?.tool_calls?.length ?? 0) > 0;
+      console.log(`[LLMProvider] Local model ${LOCAL_LLM_MODEL} tool calling: ${supported ? 'supported' : 'not supported'}`);
+      return supported;
+    } catch (error) {
+      console.warn(`[LLMProvider] Tool-calling probe failed (${error instanceof Error ? error.message : error}), running without tool calling`);
+      // Probe again next time in case the server just wasn't up yet
+      localToolCallingSupport = null;
+      return false;
+    }
+  }
+
+  private static createLLM(provider: LLMService, maxTokens: number, modelOverride?: string) {
+    // The local endpoint serves whatever LOCAL_LLM_MODEL names, so LLM_MODEL doesn't apply to it
+    const model = modelOverride || (provider === (LLM_PROVIDER || LLMService.AZURE) && provider !== LLMService.LOCAL ? LLM_MODEL : FALLBACK_MODELS[provider]);
 
     if (provider === LLMService.GEMINI) {
       return new ChatGoogleGenerativeAI({
@@ -58,6 +295,18 @@ export class LLMProvider {
         maxTokens: maxTokens,
         openAIApiKey: OPENAI_API_KEY,
       });
+    } else if (provider === LLMService.LOCAL) {
+      return new ChatOpenAI({
+        modelName: model,
+        temperature: 0.3,
+        maxTokens: maxTokens,
+        openAIApiKey: LOCAL_LLM_API_KEY,
+        configuration: {
+          baseURL: LOCAL_LLM_BASE_URL,
+        },
+      });
+    } else if (provider === LLMService.MOCK) {
+      return new MockChatModel();
     } else if (provider === LLMService.ANTHROPIC) {
       return new ChatAnthropic({
         modelName: model,
@@ -0,0 +1,186 @@
+import { logger as _logger } from '@mentra/sdk';
+import { Memory, IMemory } from '../schemas';
+import { isDatabaseConnected } from '../utils/db.util';
+
+const logger = _logger.child({ service: 'MemoryManager' });
+
+/** Max memories kept per user — the oldest are pruned when this is exceeded */
+const MAX_MEMORIES_PER_USER = 200;
+
+/** Max characters in a single memory */
+const MAX_MEMORY_LENGTH = 500;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'all', 'any', 'can', 'her', 'was', 'one',
+  'our', 'out', 'his', 'has', 'had', 'how', 'its', 'who', 'did', 'get', 'got', 'him', 'she', 'too',
+  'use', 'that', 'this', 'with', 'have', 'from', 'they', 'will', 'what', 'when', 'where', 'which',
+  'about', 'would', 'there', 'their', 'been', 'were', 'into', 'than', 'then', 'them', 'some', 'just',
+  'like', 'does', 'user', 'users', 'mine', 'tell', 'know', 'remember', 'forget', 'please',
+]);
+
+export interface ForgetResult {
+  /** Contents of the deleted memory (at most one) */
+  forgotten: string[];
+  /** Memories that all matched the description — nothing was deleted, the user has to pick one */
+  ambiguous: string[];
+}
+
+/**
+ * Stores and recalls long-term facts about a user across days and sessions.
+ * All methods degrade gracefully (no-op / empty results) when MongoDB is not connected.
+ */
+export class MemoryManager {
+  /**
+   * Split text into normalized keywords for relevance matching
+   */
+  private tokenize(text: string): Set<string> {
+    const words = text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+      .map(word => (word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word));
+    return new Set(words);
+  }
+
+  /**
+   * Fraction of the reference keywords that also appear in the candidate
+   */
+  private overlapScore(reference: Set<string>, candidate: Set<string>): number {
+    if (reference.size === 0) {
+      return 0;
+    }
+    let matches = 0;
+    reference.forEach(word => {
+      if (candidate.has(word)) matches++;
+    });
+    return matches / reference.size;
+  }
+
+  /**
+   * Save a new fact for the user. Near-duplicates of an existing memory are not stored twice.
+   * @returns The stored memory, or null if the database is unavailable
+   */
+  async remember(userId: string, content: string, source: 'agent' | 'user' = 'agent'): Promise<IMemory | null> {
+    if (!isDatabaseConnected()) {
+      logger.warn({ userId }, 'Database not connected, cannot store memory');
+      return null;
+    }
+
+    const trimmed = content.trim().slice(0, MAX_MEMORY_LENGTH);
+    if (!trimmed) {
+      return null;
+    }
+
+    const existing = await Memory.find({ userId }).sort({ createdAt: -1 });
+    const newKeywords = this.tokenize(trimmed);
+    const duplicate = existing.find(memory => {
+      const keywords = this.tokenize(memory.content);
+      return this.overlapScore(newKeywords, keywords) === 1 && this.overlapScore(keywords, newKeywords) === 1;
+    });
+    if (duplicate) {
+      return duplicate;
+    }
+
+    const memory = await Memory.create({ userId, content: trimmed, source });
+    console.log(`🧠 [Memory] Remembered for ${userId}: "${trimmed}"`);
+
+    // Prune the oldest memories beyond the per-user cap
+    if (existing.length + 1 > MAX_MEMORIES_PER_USER) {
+      const overflow = existing.slice(MAX_MEMORIES_PER_USER - 1).map(m => m._id);
+      await Memory.deleteMany({ _id: { $in: overflow } });
+    }
+
+    return memory;
+  }
+
+  /**
+   * Delete the memory that matches a natural-language description (e.g. "my parking spot").
+   * Every keyword of the description has to appear in the memory, and only a single match is deleted:
+   * when several memories match, they are returned as ambiguous so the user can say which one.
+   * A description that is the exact text of a memory always picks that memory.
+   */
+  async forget(userId: string, description: string): Promise<ForgetResult> {
+    if (!isDatabaseConnected()) {
+      logger.warn({ userId }, 'Database not connected, cannot forget memory');
+      return { forgotten: [], ambiguous: [] };
+    }
+
+    const memories = await Memory.find({ userId });
+    const normalized = description.trim().toLowerCase();
+    const exact = memories.filter(memory => memory.content.trim().toLowerCase() === normalized);
+    const keywords = this.tokenize(description);
+    const matches = exact.length > 0
+      ? exact
+      : memories.filter(memory => this.overlapScore(keywords, this.tokenize(memory.content)) === 1);
+
+    if (matches.length === 0) {
+      return { forgotten: [], ambiguous: [] };
+    }
+    if (matches.length > 1) {
+      return { forgotten: [], ambiguous: matches.map(m => m.content) };
+    }
+
+    const [match] = matches;
+    await Memory.deleteOne({ _id: match._id });
+    console.log(`🧠 [Memory] Forgot a memory for ${userId}`);
+    return { forgotten: [match.content], ambiguous: [] };
+  }
+
+  /**
+   * Get the memories most relevant to a query.
+   * If the user has only a few memories, all of them are returned.
+   */
+  async getRelevantMemories(userId: string, query: string, limit: number = 5): Promise<string[]> {
+    if (!isDatabaseConnected()) {
+      return [];
+    }
+
+    try {
+      const memories = await Memory.find({ userId }).sort({ createdAt: -1 }).lean();
+      if (memories.length <= limit) {
+        return memories.map(m => m.content);
+      }
+
+      const queryKeywords = this.tokenize(query);
+      return memories
+        .map((memory, index) => ({
+          content: memory.content,
+          score: this.overlapScore(this.tokenize(memory.content), queryKeywords),
+          index,
+        }))
+        .filter(entry => entry.score > 0)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, limit)
+        .map(entry => entry.content);
+    } catch (error) {
+      logger.error(error as Error, 'Error loading relevant memories:');
+      return [];
+    }
+  }
+
+  /**
+   * List all memories for a user, newest first
+   */
+  async listMemories(userId: string): Promise<IMemory[]> {
+    if (!isDatabaseConnected()) {
+      return [];
+    }
+    return Memory.find({ userId }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Delete a single memory by ID
+   * @returns true if a memory was deleted
+   */
+  async deleteMemory(userId: string, memoryId: string): Promise<boolean> {
+    if (!isDatabaseConnected()) {
+      return false;
+    }
+    const result = await Memory.deleteOne({ _id: memoryId, userId });
+    return result.deletedCount > 0;
+  }
+}
+
+// Singleton instance
+export const memoryManager = new MemoryManager();
@@ -1,4 +1,5 @@
 import { AppSession, PhotoData, logger as _logger } from '@mentra/sdk';
+import { getDeviceProfile } from '../constant/deviceProfiles';
 
 const logger = _logger.child({ service: 'PhotoManager' });
 
@@ -30,7 +31,7 @@ export class PhotoManager {
    * Always takes a new photo - no caching of old photos
    */
   requestPhoto(): void {
-    if (this.session.capabilities?.hasCamera) {
+    if (getDeviceProfile(this.session.capabilities).hasCamera) {
       // Clear any existing photo first - we always want a fresh one
       this.activePhotos.delete(this.sessionId);
 
@@ -0,0 +1,120 @@
+import { logger as _logger } from '@mentra/sdk';
+
+const logger = _logger.child({ service: 'ProviderHealthManager' });
+
+// Open a provider's circuit after this many consecutive failures...
+const LLM_CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '3', 10);
+// ...and keep it open this long before letting a trial request through
+const LLM_CIRCUIT_COOLDOWN_MS = parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '60000', 10);
+
+/**
+ * closed    - healthy, requests go through
+ * open      - failing, requests skip this provider until the cooldown passes
+ * half_open - cooldown passed, the next request is a trial that closes or re-opens the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface ProviderHealth {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  totalLatencyMs: number;
+  openedAt: number | null;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+}
+
+/**
+ * Tracks the health of each LLM provider (and of each user-preferred model, keyed "provider/model")
+ * and trips a circuit breaker after repeated failures so the fallback chain skips providers that are down.
+ */
+export class ProviderHealthManager {
+  private health = new Map<string, ProviderHealth>();
+
+  private getOrCreate(provider: string): ProviderHealth {
+    let health = this.health.get(provider);
+    if (!health) {
+      health = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        totalRequests: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        openedAt: null,
+        lastError: null,
+        lastFailureAt: null,
+        lastSuccessAt: null,
+      };
+      this.health.set(provider, health);
+    }
+    return health;
+  }
+
+  /**
+   * Whether a request should be sent to this provider right now.
+   * Moves an open circuit to half-open once its cooldown has passed.
+   */
+  isAvailable(provider: string): boolean {
+    const health = this.getOrCreate(provider);
+    if (health.state === 'open' && health.openedAt !== null && Date.now() - health.openedAt >= LLM_CIRCUIT_COOLDOWN_MS) {
+      health.state = 'half_open';
+      logger.info({ provider }, 'Circuit half-open, allowing a trial request');
+    }
+    return health.state !== 'open';
+  }
+
+  /**
+   * Record a successful request
+   */
+  recordSuccess(provider: string, latencyMs: number): void {
+    const health = this.getOrCreate(provider);
+    if (health.state !== 'closed') {
+      logger.info({ provider }, 'Circuit closed, provider recovered');
+    }
+    health.state = 'closed';
+    health.consecutiveFailures = 0;
+    health.openedAt = null;
+    health.totalRequests++;
+    health.totalLatencyMs += latencyMs;
+    health.lastSuccessAt = Date.now();
+  }
+
+  /**
+   * Record a failed request, opening the circuit if the threshold is reached
+   */
+  recordFailure(provider: string, error: unknown): void {
+    const health = this.getOrCreate(provider);
+    health.consecutiveFailures++;
+    health.totalRequests++;
+    health.totalFailures++;
+    health.lastError = error instanceof Error ? error.message : String(error);
+    health.lastFailureAt = Date.now();
+
+    // A failed trial re-opens immediately; otherwise open after the threshold
+    if (health.state === 'half_open' || health.consecutiveFailures >= LLM_CIRCUIT_FAILURE_THRESHOLD) {
+      if (health.state !== 'open') {
+        logger.warn({ provider, consecutiveFailures: health.consecutiveFailures, error: health.lastError }, 'Circuit opened');
+      }
+      health.state = 'open';
+      health.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Get health for every provider that has handled a request
+   */
+  getHealth() {
+    return Array.from(this.health.entries()).map(([provider, health]) => ({
+      provider,
+      ...health,
+      averageLatencyMs: health.totalRequests - health.totalFailures > 0
+        ? Math.round(health.totalLatencyMs / (health.totalRequests - health.totalFailures))
+        : 0,
+    }));
+  }
+}
+
+// Singleton instance
+export const providerHealthManager = new ProviderHealthManager();
@@ -11,6 +11,10 @@ import { ChatManager } from './chat.manager';
 import { PhotoManager } from './photo.manager';
 import { AudioPlaybackManager } from './audio-playback.manager';
 import { WakeWordDetector } from './wake-word.manager';
+import type { MessageExperimentData } from '../schemas';
+import { DEFAULT_LOCALE, resolveQueryLocale } from '../utils/language.util';
+import { getQueryStrings } from '../constant/localizedStrings';
+import { getDeviceProfile } from '../constant/deviceProfiles';
 
 const logger = _logger.child({ service: 'QueryProcessor' });
 
@@ -24,8 +28,9 @@ interface QueryProcessorConfig {
   photoManager: PhotoManager;
   audioManager: AudioPlaybackManager;
   wakeWordDetector: WakeWordDetector;
-  onConversationTurn?: (query: string, response: string, photoTimestamp?: number) => void;
+  onConversationTurn?: (query: string, response: string, photoTimestamp?: number, experiment?: MessageExperimentData) => void;
   onLocationRequest?: () => Promise<void>;
+  getSessionLocale?: () => string;
 }
 
 /**
@@ -45,16 +50,15 @@ export class QueryProcessor {
   private audioManager: AudioPlaybackManager;
   private wakeWordDetector: WakeWordDetector;
   private currentQueryMessageId?: string;
-  private onConversationTurn?: (query: string, response: string, photoTimestamp?: number) => void;
+  private streamingAnswerMessageId?: string;
+  private answerMessageId?: string;
+  // The last answer asked the user a question (Respond's followUpExpected, or a disambiguation)
+  private replyExpected: boolean = false;
+  private onConversationTurn?: (query: string, response: string, photoTimestamp?: number, experiment?: MessageExperimentData) => void;
   private onLocationRequest?: () => Promise<void>;
-
-  // Set to true by TranscriptionManager when a wake word interrupts this query.
-  // Checked before speaking so an interrupted query doesn't play audio over the new one.
-  public aborted: boolean = false;
-
-  // Sliding window of the last 2 photos from previous queries (not including the current one)
-  private static readonly MAX_PREVIOUS_PHOTOS = 2;
-  private previousPhotos: { photo: PhotoData; query: string; timestamp: number }[] = [];
+  private getSessionLocale: () => string;
+  // Locale of the query being processed — the answer, voice and status strings use it
+  private locale: string = DEFAULT_LOCALE;
 
   constructor(config: QueryProcessorConfig) {
     this.session = config.session;
@@ -68,13 +72,29 @@ export class QueryProcessor {
     this.wakeWordDetector = config.wakeWordDetector;
     this.onConversationTurn = config.onConversationTurn;
     this.onLocationRequest = config.onLocationRequest;
+    this.getSessionLocale = config.getSessionLocale || (() => DEFAULT_LOCALE);
   }
 
   /**
    * Process and respond to the user's query
+   * @param signal - Cancels the query: in-flight LLM/tool calls are aborted and nothing is spoken
    */
-  async processQuery(rawText: string, timerDuration: number, transcriptionStartTime: number, activeSpeakerId?: string): Promise<boolean> {
-    this.aborted = false; // Reset abort flag for this new query
+  async processQuery(
+    rawText: string,
+    timerDuration: number,
+    transcriptionStartTime: number,
+    activeSpeakerId?: string,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    this.streamingAnswerMessageId = undefined;
+    this.answerMessageId = undefined;
+    this.replyExpected = false;
+    // Until the query text is known, status messages use the session's language
+    const sessionLocale = this.getSessionLocale();
+    this.setLocale(sessionLocale);
+    if (signal?.aborted) {
+      return false;
+    }
     const processQueryStartTime = Date.now();
     console.log(`🚀 processQuery START`);
 
@@ -94,9 +114,16 @@ export class QueryProcessor {
     // Play processing sounds IMMEDIATELY so user gets instant feedback
     const stopProcessingSounds = await this.audioManager.playProcessingSounds();
 
+    // Stop all feedback the moment the query is cancelled
+    signal?.addEventListener('abort', () => {
+      stopProcessingSounds();
+      this.audioManager.stopSpeaking();
+      console.log(`🚫 processQuery CANCELLED`);
+    }, { once: true });
+
     // Fetch transcript from backend
-    const transcriptionResponse = await this.fetchTranscript(durationSeconds, transcriptionStartTime);
-    if (!transcriptionResponse) {
+    const transcriptionResponse = await this.fetchTranscript(durationSeconds, transcriptionStartTime, signal);
+    if (!transcriptionResponse || signal?.aborted) {
       stopProcessingSounds();
       return false;
     }
@@ -123,18 +150,26 @@ export class QueryProcessor {
     // Remove wake word from query
     let query = this.wakeWordDetector.removeWakeWord(rawCombinedText);
 
+    // Answer in the language the user actually spoke, not only the configured one
+    this.setLocale(resolveQueryLocale(query, sessionLocale));
+
     // Clear transcripts from backend to prevent accumulation
     this.clearTranscripts(transcriptionStartTime).catch((err: Error) => {
       logger.warn(`Failed to clear transcripts: ${err.message}`);
     });
 
+    // The whole query was "never mind": nothing to answer
+    if (this.wakeWordDetector.isCancellation(query, this.locale)) {
+      stopProcessingSounds();
+      await this.audioManager.playCancellation();
+      this.audioManager.clearDisplay();
+      return false;
+    }
+
     if (query.trim().length === 0) {
       stopProcessingSounds();
       await this.audioManager.playCancellation();
-      this.session.layouts.showTextWall(
-        wrapText("No query provided.", 30),
-        { durationMs: 3000 }
-      );
+      this.audioManager.showStatusText(wrapText(getQueryStrings(this.locale).noQuery, 30), 3000);
       return false;
     }
 
@@ -162,10 +197,13 @@ export class QueryProcessor {
           originalQuery: query,
           photo: null,
           getPhotoCallback: async () => null,
-          hasDisplay: this.session.capabilities?.hasDisplay,
+          deviceProfile: getDeviceProfile(this.session.capabilities),
+          onAnswerStream: this.createAnswerStreamHandler(stopProcessingSounds, signal),
+          signal,
+          locale: this.locale,
         });
 
-        await this.handleAgentResponse(agentResponse, query, null);
+        await this.handleAgentResponse(agentResponse, query, null, signal);
         return true;
       }
 
@@ -176,6 +214,9 @@ export class QueryProcessor {
       if (!photo) {
         photo = await this.photoManager.getPhoto(true);
       }
+      if (signal?.aborted) {
+        return false;
+      }
 
       // Send query to frontend
       if (this.chatManager && query.trim().length > 0 && !this.currentQueryMessageId) {
@@ -194,19 +235,26 @@ export class QueryProcessor {
         return await this.photoManager.getPhoto(true);
       };
 
-      const hasDisplay = this.session.capabilities?.hasDisplay;
-      const inputData = { query, originalQuery: query, photo, getPhotoCallback, hasDisplay, previousPhotos: this.previousPhotos };
+      const deviceProfile = getDeviceProfile(this.session.capabilities);
+      const onAnswerStream = this.createAnswerStreamHandler(stopProcessingSounds, signal);
 
-      // Single agent call with 30-second timeout
+      // Single agent call with 30-second timeout — the timeout also cancels the agent's in-flight work
       const QUERY_TIMEOUT_MS = 30000;
-      const timeoutPromise = new Promise<null>((resolve) =>
-        setTimeout(() => resolve(null), QUERY_TIMEOUT_MS)
-      );
-
+      const timeoutController = new AbortController();
+      const agentSignal = signal ? AbortSignal.any([signal, timeoutController.signal]) : timeoutController.signal;
+      let queryTimer: NodeJS.Timeout | undefined;
+      const timeoutPromise = new Promise<null>((resolve) => {
+        queryTimer = setTimeout(() => {
+          timeoutController.abort();
+          resolve(null);
+        }, QUERY_TIMEOUT_MS);
+      });
+
+      const inputData = { query, originalQuery: query, photo, getPhotoCallback, deviceProfile, previousPhotos: this.miraAgent.getPreviousPhotos(), onAnswerStream, signal: agentSignal, locale: this.locale };
       const agentResponse = await Promise.race([
         this.miraAgent.handleContext(inputData),
         timeoutPromise,
-      ]);
+      ]).finally(() => clearTimeout(queryTimer));
 
       // Stop processing sounds
       stopProcessingSounds();
@@ -214,24 +262,18 @@ export class QueryProcessor {
       // If timed out, tell the user
       if (agentResponse === null) {
         console.log(`⏰ processQuery TIMED OUT after ${QUERY_TIMEOUT_MS / 1000}s`);
-        const timeoutMsg = "Hmm, something went wrong.";
+        const timeoutMsg = getQueryStrings(this.locale).timeout;
         await this.audioManager.showOrSpeakText(timeoutMsg);
-        if (this.chatManager) {
-          this.chatManager.setProcessing(this.userId, false);
-          this.chatManager.addAssistantMessage(this.userId, timeoutMsg);
-        }
+        this.pushAssistantMessage(timeoutMsg);
         return false;
       }
 
       // Handle response
-      await this.handleAgentResponse(agentResponse, query, photo);
+      await this.handleAgentResponse(agentResponse, query, photo, signal);
 
-      // Save current photo to history for future queries
-      if (photo) {
-        this.previousPhotos.push({ photo, query, timestamp: Date.now() });
-        if (this.previousPhotos.length > QueryProcessor.MAX_PREVIOUS_PHOTOS) {
-          this.previousPhotos.shift();
-        }
+      // Save current photo to history for future queries (a cancelled query keeps nothing)
+      if (photo && !signal?.aborted) {
+        this.miraAgent.addPreviousPhoto(photo, query);
       }
 
       const totalProcessTime = Date.now() - processQueryStartTime;
@@ -240,23 +282,34 @@ export class QueryProcessor {
       return true;
 
     } catch (error) {
+      // Cancelled queries end silently — the new query (or session stop) owns the output now
+      if (signal?.aborted) {
+        stopProcessingSounds();
+        return false;
+      }
+
       // Error logged by logger below
       logger.error(error, `[Session ${this.sessionId}]: Error processing query:`);
-      const errorMsg = "Sorry, there was an error processing your request.";
+      const errorMsg = getQueryStrings(this.locale).error;
       await this.audioManager.showOrSpeakText(errorMsg);
-      if (this.chatManager) {
-        this.chatManager.setProcessing(this.userId, false);
-        this.chatManager.addAssistantMessage(this.userId, errorMsg);
-      }
+      this.pushAssistantMessage(errorMsg);
       stopProcessingSounds();
       return false;
     }
   }
 
+  /**
+   * Switch the language used for status strings and the TTS voice
+   */
+  private setLocale(locale: string): void {
+    this.locale = locale;
+    this.audioManager.setLocale(locale);
+  }
+
   /**
    * Fetch transcript from backend
    */
-  private async fetchTranscript(durationSeconds: number, transcriptionStartTime?: number): Promise<any | null> {
+  private async fetchTranscript(durationSeconds: number, transcriptionStartTime?: number, signal?: AbortSignal): Promise<any | null> {
     let backendUrl = `${this.serverUrl}/api/transcripts/${this.sessionId}?duration=${durationSeconds}`;
     if (transcriptionStartTime && transcriptionStartTime > 0) {
       backendUrl += `&startTime=${new Date(transcriptionStartTime).toISOString()}`;
@@ -264,7 +317,7 @@ export class QueryProcessor {
 
     try {
       logger.debug(`[Session ${this.sessionId}]: Fetching transcript from: ${backendUrl}`);
-      const transcriptResponse = await fetch(backendUrl);
+      const transcriptResponse = await fetch(backendUrl, { signal });
 
       logger.debug(`[Session ${this.sessionId}]: Response status: ${transcriptResponse.status}`);
 
@@ -283,21 +336,18 @@ export class QueryProcessor {
 
       if (!transcriptionResponse || !transcriptionResponse.segments || !Array.isArray(transcriptionResponse.segments)) {
         logger.error({ transcriptionResponse }, `[Session ${this.sessionId}]: Invalid response structure:`);
-        this.session.layouts.showTextWall(
-          wrapText("Sorry, the transcript format was invalid. Please try again.", 30),
-          { durationMs: 5000 }
-        );
+        this.audioManager.showStatusText(wrapText(getQueryStrings(this.locale).transcriptInvalid, 30), 5000);
         return null;
       }
 
       return transcriptionResponse;
 
     } catch (fetchError) {
+      if (signal?.aborted) {
+        return null;
+      }
       logger.error(fetchError, `[Session ${this.sessionId}]: Error fetching transcript:`);
-      this.session.layouts.showTextWall(
-        wrapText("Sorry, there was an error retrieving your transcript. Please try again.", 30),
-        { durationMs: 5000 }
-      );
+      this.audioManager.showStatusText(wrapText(getQueryStrings(this.locale).transcriptError, 30), 5000);
       return null;
     }
   }
@@ -326,26 +376,35 @@ export class QueryProcessor {
     if (displayQuery.length > 60) {
       displayQuery = displayQuery.slice(0, 60).trim() + ' ...';
     }
-    this.session.layouts.showTextWall(
-      wrapText("Processing query: " + displayQuery, 30),
-      { durationMs: 8000 }
-    );
+    this.audioManager.showStatusText(wrapText(getQueryStrings(this.locale).processingQuery + displayQuery, 30), 8000);
   }
 
   /**
    * Handle agent response and send to user
+   * @param signal - The query's cancellation signal: a cancelled query speaks nothing and keeps no turn
    */
   private async handleAgentResponse(
     agentResponse: any,
     query: string,
     photo: PhotoData | null,
+    signal?: AbortSignal,
   ): Promise<void> {
+    if (signal?.aborted) {
+      // The agent recorded the turn before the query was cancelled
+      this.miraAgent.discardConversationTurn(query);
+      return;
+    }
+
     let finalAnswer: string;
     let needsCamera = false;
+    let displayText: string | undefined;
+    let spokenText: string | undefined;
 
     if (agentResponse && typeof agentResponse === 'object' && 'answer' in agentResponse) {
       finalAnswer = agentResponse.answer;
       needsCamera = agentResponse.needsCamera || false;
+      displayText = agentResponse.displayText;
+      spokenText = agentResponse.spokenText;
     } else if (typeof agentResponse === 'string') {
       finalAnswer = agentResponse;
     } else {
@@ -365,13 +424,10 @@ export class QueryProcessor {
 
     if (!finalAnswer) {
       logger.info("No insight found");
-      const errorMsg = "Sorry, I couldn't find an answer to that.";
+      const errorMsg = getQueryStrings(this.locale).noAnswer;
       await this.audioManager.showOrSpeakText(errorMsg);
 
-      if (this.chatManager) {
-        this.chatManager.setProcessing(this.userId, false);
-        this.chatManager.addAssistantMessage(this.userId, errorMsg);
-      }
+      this.pushAssistantMessage(errorMsg);
     } else if (finalAnswer === GIVE_APP_CONTROL_OF_TOOL_RESPONSE) {
       if (this.chatManager) {
         this.chatManager.setProcessing(this.userId, false);
@@ -381,22 +437,76 @@ export class QueryProcessor {
 
       if (!handled) {
         if (this.chatManager) {
-          this.chatManager.setProcessing(this.userId, false);
-          this.chatManager.addAssistantMessage(this.userId, finalAnswer);
+          this.pushAssistantMessage(finalAnswer);
         } else {
           console.warn(`⚠️  [WEBVIEW] ChatManager not available - webview won't receive response`);
         }
 
-        await this.audioManager.showOrSpeakText(finalAnswer);
+        await this.audioManager.showOrSpeakText(displayText || finalAnswer, spokenText || finalAnswer);
+
+        // Cancelled while the answer was being spoken: don't keep the turn
+        if (signal?.aborted) {
+          this.miraAgent.discardConversationTurn(query);
+          return;
+        }
+
+        this.replyExpected = !!agentResponse?.followUpExpected || this.miraAgent.hasPendingDisambiguation();
 
         if (this.onConversationTurn) {
           const photoTimestamp = photo ? Date.now() : undefined;
-          this.onConversationTurn(query, finalAnswer, photoTimestamp);
+          this.onConversationTurn(query, finalAnswer, photoTimestamp, {
+            promptVariant: agentResponse?.promptVariant,
+            toolsUsed: agentResponse?.toolsUsed,
+          });
         }
       }
     }
   }
 
+  /**
+   * Create the callback that receives the partial answer while the agent streams it.
+   * The first chunk stops the processing sounds and opens an assistant message in the
+   * webview; every chunk is shown progressively on the glasses.
+   */
+  private createAnswerStreamHandler(stopProcessingSounds: () => void, signal?: AbortSignal): (partialAnswer: string) => void {
+    return (partialAnswer: string) => {
+      if (signal?.aborted) {
+        return;
+      }
+
+      stopProcessingSounds();
+      this.audioManager.showStreamingText(partialAnswer);
+
+      if (this.chatManager) {
+        if (!this.streamingAnswerMessageId) {
+          this.chatManager.setProcessing(this.userId, false);
+          this.streamingAnswerMessageId = this.chatManager.startAssistantMessage(this.userId, partialAnswer);
+        } else {
+          this.chatManager.updateAssistantMessage(this.userId, this.streamingAnswerMessageId, partialAnswer);
+        }
+      }
+    };
+  }
+
+  /**
+   * Send the final assistant message to the webview, replacing the streamed
+   * message if one was started for this query
+   */
+  private pushAssistantMessage(content: string): void {
+    if (!this.chatManager) {
+      return;
+    }
+
+    this.chatManager.setProcessing(this.userId, false);
+    if (this.streamingAnswerMessageId) {
+      this.chatManager.updateAssistantMessage(this.userId, this.streamingAnswerMessageId, content);
+      this.answerMessageId = this.streamingAnswerMessageId;
+      this.streamingAnswerMessageId = undefined;
+    } else {
+      this.answerMessageId = this.chatManager.addAssistantMessage(this.userId, content);
+    }
+  }
+
   /**
    * Update user message with photo if available
    */
@@ -444,10 +554,35 @@ export class QueryProcessor {
   }
 
   /**
-   * Clear the current query message ID
+   * Clear the current query message ID (and its answer's, once the query is finished)
    */
   clearCurrentQueryMessageId(): void {
     this.currentQueryMessageId = undefined;
+    this.answerMessageId = undefined;
+  }
+
+  /**
+   * Whether the last answer asked the user a question and is waiting for a reply
+   */
+  isReplyExpected(): boolean {
+    return this.replyExpected;
+  }
+
+  /**
+   * Remove the cancelled query and any answer to it from the webview
+   */
+  discardCurrentQuery(): void {
+    if (this.chatManager) {
+      for (const messageId of [this.currentQueryMessageId, this.streamingAnswerMessageId, this.answerMessageId]) {
+        if (messageId) {
+          this.chatManager.removeMessage(this.userId, messageId);
+        }
+      }
+      this.chatManager.setProcessing(this.userId, false);
+    }
+    this.currentQueryMessageId = undefined;
+    this.streamingAnswerMessageId = undefined;
+    this.answerMessageId = undefined;
   }
 
   /**
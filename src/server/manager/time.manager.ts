@@ -9,18 +9,18 @@ export class Time {
   }
 
   /** Returns the current time formatted for the configured timezone (e.g. "2:30:00 PM"). */
-  getLocalTime(): string {
-    return new Date().toLocaleTimeString("en-US", { timeZone: this.timezone });
+  getLocalTime(locale: string = "en-US"): string {
+    return new Date().toLocaleTimeString(locale, { timeZone: this.timezone });
   }
 
   /** Returns the current date formatted for the configured timezone (e.g. "2/12/2026"). */
-  getLocalDate(): string {
-    return new Date().toLocaleDateString("en-US", { timeZone: this.timezone });
+  getLocalDate(locale: string = "en-US"): string {
+    return new Date().toLocaleDateString(locale, { timeZone: this.timezone });
   }
 
-  /** Returns the current date and time formatted for the configured timezone. */
-  getLocalDateTime(): string {
-    return new Date().toLocaleString("en-US", { timeZone: this.timezone });
+  /** Returns the current date and time formatted for the configured timezone and locale. */
+  getLocalDateTime(locale: string = "en-US"): string {
+    return new Date().toLocaleString(locale, { timeZone: this.timezone });
   }
 
   /** Returns the IANA timezone string (e.g. "America/New_York"). */
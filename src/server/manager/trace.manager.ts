@@ -0,0 +1,169 @@
+import { logger as _logger } from '@mentra/sdk';
+
+const logger = _logger.child({ service: 'TraceManager' });
+
+// Traces kept per user (oldest are dropped first)
+const MAX_TRACES_PER_USER = 20;
+
+// Long tool args/results and LLM output are cut to this many characters
+const MAX_TRACE_TEXT_LENGTH = 500;
+
+export type TraceStatus = 'running' | 'completed' | 'failed';
+
+export interface TraceLLMTurn {
+  turn: number;
+  latencyMs: number;
+  streamed: boolean;
+  toolCalls: string[];
+  output: string;
+}
+
+export interface TraceToolCall {
+  turn: number;
+  name: string;
+  args: string;
+  status: string;
+  result: string;
+  latencyMs: number;
+}
+
+export interface TraceDisambiguation {
+  stage: 'pending_match' | 'detection';
+  detected: boolean;
+  candidates: string[];
+  details?: string;
+}
+
+export interface AgentTrace {
+  id: string;
+  userId: string;
+  query: string;
+  status: TraceStatus;
+  startedAt: number;
+  durationMs?: number;
+  responseMode?: string;
+  promptVariant?: string;
+  wordLimit?: { limit: number; words: number; action: string };
+  hasPhoto: boolean;
+  previousPhotoCount: number;
+  prompt?: { characters: number; estimatedTokens: number; historyTurns: number };
+  llmTurns: TraceLLMTurn[];
+  toolCalls: TraceToolCall[];
+  disambiguation: TraceDisambiguation[];
+  finalAnswer?: string;
+  error?: string;
+}
+
+function truncate(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  return text.length > MAX_TRACE_TEXT_LENGTH ? text.substring(0, MAX_TRACE_TEXT_LENGTH) + '…' : text;
+}
+
+/**
+ * Records what happened during one handleContext call.
+ * The trace is visible through the TraceManager while it is still running.
+ */
+export class QueryTrace {
+  constructor(readonly data: AgentTrace) {}
+
+  setResponseMode(responseMode: string): void {
+    this.data.responseMode = responseMode;
+  }
+
+  setPromptVariant(promptVariant: string): void {
+    this.data.promptVariant = promptVariant;
+  }
+
+  setWordLimit(limit: number, words: number, action: string): void {
+    this.data.wordLimit = { limit, words, action };
+  }
+
+  setPrompt(systemPrompt: string, estimatedTokens: number, historyTurns: number): void {
+    this.data.prompt = { characters: systemPrompt.length, estimatedTokens, historyTurns };
+  }
+
+  setPhotos(hasPhoto: boolean, previousPhotoCount: number): void {
+    this.data.hasPhoto = hasPhoto;
+    this.data.previousPhotoCount = previousPhotoCount;
+  }
+
+  recordLLMTurn(turn: number, latencyMs: number, streamed: boolean, toolCalls: string[], output: string): void {
+    this.data.llmTurns.push({ turn, latencyMs, streamed, toolCalls, output: truncate(output) });
+  }
+
+  recordToolCall(turn: number, name: string, args: unknown, status: string, result: unknown, latencyMs: number): void {
+    this.data.toolCalls.push({ turn, name, args: truncate(args), status, result: truncate(result), latencyMs });
+  }
+
+  recordDisambiguation(disambiguation: TraceDisambiguation): void {
+    this.data.disambiguation.push(disambiguation);
+  }
+
+  complete(finalAnswer: string): void {
+    this.data.status = 'completed';
+    this.data.finalAnswer = finalAnswer;
+    this.data.durationMs = Date.now() - this.data.startedAt;
+  }
+
+  fail(error: unknown): void {
+    this.data.status = 'failed';
+    this.data.error = error instanceof Error ? error.message : String(error);
+    this.data.durationMs = Date.now() - this.data.startedAt;
+  }
+}
+
+/**
+ * Keeps a bounded ring buffer of recent query traces per user for debugging
+ */
+export class TraceManager {
+  private tracesPerUser = new Map<string, AgentTrace[]>();
+  private traceCounter = 0;
+
+  /**
+   * Start recording a trace for a query
+   */
+  startTrace(userId: string, query: string): QueryTrace {
+    const trace: AgentTrace = {
+      id: `trace_${Date.now()}_${++this.traceCounter}`,
+      userId,
+      query,
+      status: 'running',
+      startedAt: Date.now(),
+      hasPhoto: false,
+      previousPhotoCount: 0,
+      llmTurns: [],
+      toolCalls: [],
+      disambiguation: [],
+    };
+
+    let traces = this.tracesPerUser.get(userId);
+    if (!traces) {
+      traces = [];
+      this.tracesPerUser.set(userId, traces);
+    }
+    traces.push(trace);
+    if (traces.length > MAX_TRACES_PER_USER) {
+      traces.splice(0, traces.length - MAX_TRACES_PER_USER);
+    }
+
+    logger.debug({ userId, traceId: trace.id }, 'Trace started');
+    return new QueryTrace(trace);
+  }
+
+  /**
+   * Get a user's traces, newest first
+   */
+  getTraces(userId: string): AgentTrace[] {
+    return [...(this.tracesPerUser.get(userId) || [])].reverse();
+  }
+
+  /**
+   * Clear all traces for a user
+   */
+  clearTraces(userId: string): void {
+    this.tracesPerUser.delete(userId);
+  }
+}
+
+// Singleton instance
+export const traceManager = new TraceManager();
@@ -11,10 +11,15 @@ import { LocationService, clearLocationCacheForSession } from './geolocation.man
 import { AudioPlaybackManager } from './audio-playback.manager';
 import { WakeWordDetector } from './wake-word.manager';
 import { QueryProcessor } from './query.manager';
-import { UserSettings } from '../schemas';
+import { UserSettings, MessageExperimentData } from '../schemas';
+import { toSessionLocale } from '../utils/language.util';
+import { parsePageCommand } from './display-pager.manager';
 
 const logger = _logger.child({ service: 'TranscriptionManager' });
 
+// App setting holding the transcription language as a display name (e.g. "Spanish (Spain)")
+const TRANSCRIPTION_LANGUAGE_SETTING = 'transcribe_language';
+
 /**
  * Debug flag to enable/disable live transcription logging
  * Set to true to see ALL transcriptions (including ambient) in terminal
@@ -22,6 +27,9 @@ const logger = _logger.child({ service: 'TranscriptionManager' });
  */
 const DEBUG_LOG_ALL_TRANSCRIPTIONS = false;
 
+// How long Mira listens without a wake word for the reply to an answer that asked a question
+const REPLY_WINDOW_MS = 8000;
+
 /**
  * Manages the transcription state for active sessions
  */
@@ -64,6 +72,12 @@ export class TranscriptionManager {
   // finally blocks don't clobber state belonging to a newer session
   private queryGeneration: number = 0;
 
+  // Cancels the in-flight query (LLM calls, tool HTTP requests, TTS) when it is superseded or the session stops
+  private queryAbortController?: AbortController;
+
+  // Language of the latest transcription (BCP-47), reported by the transcription stream
+  private transcriptionLocale: string | undefined = undefined;
+
   // Extracted managers and services
   private photoManager: PhotoManager;
   private locationService: LocationService;
@@ -79,7 +93,7 @@ export class TranscriptionManager {
     serverUrl: string,
     chatManager?: ChatManager,
     broadcastTranscription?: (text: string, isFinal: boolean) => void,
-    onConversationTurn?: (query: string, response: string, photoTimestamp?: number) => void
+    onConversationTurn?: (query: string, response: string, photoTimestamp?: number, experiment?: MessageExperimentData) => void
   ) {
     this.session = session;
     this.sessionId = sessionId;
@@ -103,6 +117,7 @@ export class TranscriptionManager {
       audioManager: this.audioManager,
       wakeWordDetector: this.wakeWordDetector,
       onConversationTurn,
+      getSessionLocale: () => this.getSessionLocale(),
       // Lazy geocoding: Only fetch location when user asks location-related questions
       onLocationRequest: async () => {
         try {
@@ -119,6 +134,7 @@ export class TranscriptionManager {
 
     // Use same settings as LiveCaptions for now
     this.transcriptProcessor = new TranscriptProcessor(30, 3, 3, false);
+    this.audioManager.setPageSize(this.transcriptProcessor.getMaxCharsPerLine(), this.transcriptProcessor.getMaxLines());
     this.logger = session.logger.child({ service: 'Mira.TranscriptionManager' });
 
     // Initialize subscription state based on setting
@@ -153,6 +169,10 @@ export class TranscriptionManager {
       return;
     }
 
+    if (transcriptionData.detectedLanguage || transcriptionData.transcribeLanguage) {
+      this.transcriptionLocale = transcriptionData.detectedLanguage || transcriptionData.transcribeLanguage;
+    }
+
     const text = transcriptionData.text;
     const cleanedText = this.wakeWordDetector.cleanText(text);
     const hasWakeWord = this.wakeWordDetector.hasWakeWord(text);
@@ -160,6 +180,10 @@ export class TranscriptionManager {
     if (this.isProcessingQuery) {
       // Ignore ALL transcriptions (including wake word) while a query is being processed.
       // The user must wait for the current query to finish before starting a new one.
+      // The only exception is calling the query off ("never mind").
+      if (transcriptionData.isFinal && this.isCancellationWhileProcessing(text)) {
+        this.cancelQueryByVoice(text);
+      }
       return;
     }
 
@@ -175,6 +199,23 @@ export class TranscriptionManager {
       }
     }
 
+    // "next" / "go back" turn the pages of a long answer (no wake word needed).
+    // Interim results of a page command are swallowed so they don't start a follow-up query.
+    if (!this.isListeningToQuery && this.audioManager.isPaging()) {
+      const pageCommand = parsePageCommand(this.wakeWordDetector.removeWakeWord(text));
+      if (pageCommand) {
+        if (!transcriptionData.isFinal) {
+          return;
+        }
+        if (pageCommand === 'next') {
+          this.audioManager.nextPage();
+        } else {
+          this.audioManager.previousPage();
+        }
+        return;
+      }
+    }
+
     // Handle follow-up mode: no wake word required, just process the transcription
     if (this.isInFollowUpMode) {
       // Per-transcription follow-up logs commented out to reduce noise
@@ -213,9 +254,17 @@ export class TranscriptionManager {
       // }
     }
 
+    // "Hey Mentra... never mind" / "wasn't talking to you" calls the query off.
+    // Only final transcripts count, so an interim "hey mentra stop" doesn't cancel "...stop the timer".
+    if (transcriptionData.isFinal && this.wakeWordDetector.isCancellation(this.wakeWordDetector.removeWakeWord(text), this.getSessionLocale())) {
+      this.cancelQueryByVoice(text);
+      return;
+    }
+
     if (!this.isListeningToQuery) {
       // New query starting — clear stale query text so future queries aren't blocked
       this.lastProcessedQueryText = '';
+      this.audioManager.stopPaging();
 
       // Request a fresh photo ONLY when we first detect the wake word (start of query)
       // This prevents taking multiple photos during the same query
@@ -261,11 +310,11 @@ export class TranscriptionManager {
       if (this.transcriptProcessor.getLastUserTranscript().trim().length !== 0) {
         this.transcriptProcessor.processString('', false);
       }
-      this.session.layouts.showTextWall("Listening...", { durationMs: 10000 });
+      this.audioManager.showStatusText("Listening...", 10000);
     } else {
       // Show the live query as the user is talking
       let formatted = 'Listening...\n\n' + this.transcriptProcessor.processString(displayText, !!transcriptionData.isFinal).trim();
-      this.session.layouts.showTextWall(formatted, { durationMs: 20000 });
+      this.audioManager.showStatusText(formatted, 20000);
     }
 
     let timerDuration: number;
@@ -314,6 +363,14 @@ export class TranscriptionManager {
       text = newText;
     }
 
+    // "Never mind" ends follow-up mode without a query
+    if (transcriptionData.isFinal && this.wakeWordDetector.isCancellation(this.wakeWordDetector.removeWakeWord(text), this.getSessionLocale())) {
+      console.log(`🚫 [${new Date().toISOString()}] Follow-up cancelled by voice: "${text}"`);
+      this.cancelFollowUpMode();
+      this.audioManager.clearDisplay();
+      return;
+    }
+
     // Cancel the 5-second timeout since user is speaking
     if (this.followUpTimeoutId) {
       clearTimeout(this.followUpTimeoutId);
@@ -332,8 +389,9 @@ export class TranscriptionManager {
     // Show the live query (no "Listening..." prefix for follow-up)
     const displayText = this.wakeWordDetector.removeWakeWord(text); // Remove wake word if user says it anyway
     if (displayText.trim().length > 0) {
+      this.audioManager.stopPaging();
       const formatted = 'Follow-up...\n\n' + this.transcriptProcessor.processString(displayText, !!transcriptionData.isFinal).trim();
-      this.session.layouts.showTextWall(formatted, { durationMs: 20000 });
+      this.audioManager.showStatusText(formatted, 20000);
     }
 
     // Set timer to process the follow-up query
@@ -380,6 +438,26 @@ export class TranscriptionManager {
     // console.log(`🔔 [${new Date().toISOString()}] Follow-up mode activated`);
   }
 
+  /**
+   * Listen for the user's reply without a wake word after an answer that asked a question
+   * (e.g. "Which one would you like: 'Notes' or 'Notes Beta'?")
+   */
+  private startReplyListening(): void {
+    console.log(`🔔 [${new Date().toISOString()}] Answer expects a reply - listening without wake word (${REPLY_WINDOW_MS / 1000}s)`);
+
+    this.isInFollowUpMode = true;
+    this.isProcessingQuery = false;
+    this.transcriptionStartTime = 0;
+    this.transcriptProcessor.clear();
+
+    this.followUpTimeoutId = setTimeout(() => {
+      console.log(`⏰ [${new Date().toISOString()}] No reply within ${REPLY_WINDOW_MS / 1000}s, returning to normal mode`);
+      this.cancelFollowUpMode();
+    }, REPLY_WINDOW_MS);
+
+    this.audioManager.playFollowUp();
+  }
+
   /**
    * Cancel follow-up mode and return to normal wake word detection
    * Plays the cancellation sound to give user audio feedback
@@ -427,19 +505,31 @@ export class TranscriptionManager {
     }
 
     this.isProcessingQuery = true;
+    const myGeneration = this.queryGeneration;
     console.log(`🔄 [${new Date().toISOString()}] Processing follow-up query: "${rawText}"`);
 
     // Store the raw text to prevent it from being re-processed in next follow-up
     // This is needed because backend doesn't properly clear/filter transcripts
     this.lastProcessedQueryText = rawText;
 
+    const controller = this.startQueryAbortController();
     try {
       // Remove wake word if user said it anyway (habit)
       const cleanedText = this.wakeWordDetector.removeWakeWord(rawText);
-      await this.queryProcessor.processQuery(cleanedText, timerDuration, this.transcriptionStartTime);
+      await this.queryProcessor.processQuery(cleanedText, timerDuration, this.transcriptionStartTime, undefined, controller.signal);
     } catch (error) {
       logger.error(error, `[Session ${this.sessionId}]: Error in processFollowUpQuery:`);
     } finally {
+      // A newer query may already own the field
+      if (this.queryAbortController === controller) {
+        this.queryAbortController = undefined;
+      }
+
+      // If the query was cancelled, the cancel already reset state
+      if (myGeneration !== this.queryGeneration) {
+        return;
+      }
+
       // Reset state after follow-up query
       this.transcriptionStartTime = 0;
       this.isListeningToQuery = false;
@@ -457,7 +547,9 @@ export class TranscriptionManager {
       }
 
       // Check if we should start another follow-up listening session
-      if (this.followUpEnabled) {
+      if (this.queryProcessor.isReplyExpected()) {
+        this.startReplyListening();
+      } else if (this.followUpEnabled) {
         await this.startFollowUpListening();
       } else {
         this.isProcessingQuery = false;
@@ -465,10 +557,66 @@ export class TranscriptionManager {
     }
   }
 
+  /**
+   * Create the AbortController for a new query
+   */
+  private startQueryAbortController(): AbortController {
+    this.queryAbortController?.abort(new Error('Superseded by a new query'));
+    this.queryAbortController = new AbortController();
+    return this.queryAbortController;
+  }
+
+  /**
+   * Cancel the in-flight query, if any. Its LLM calls, tool requests and speech stop,
+   * and the generation bump keeps its finally block from clobbering newer state.
+   * @returns true if a query was cancelled
+   */
+  public cancelActiveQuery(reason: string): boolean {
+    const controller = this.queryAbortController;
+    if (!controller) {
+      return false;
+    }
+
+    console.log(`🚫 [${new Date().toISOString()}] Cancelling active query: ${reason}`);
+    this.queryGeneration++;
+    this.queryAbortController = undefined;
+    controller.abort(new Error(reason));
+    return true;
+  }
+
+  /**
+   * Whether a transcription heard while a query is processing calls it off.
+   * The transcription stream keeps repeating the query's own utterance, so only the words after it are checked.
+   */
+  private isCancellationWhileProcessing(text: string): boolean {
+    let newText = text;
+    if (this.lastProcessedQueryText && text.startsWith(this.lastProcessedQueryText)) {
+      newText = text.slice(this.lastProcessedQueryText.length);
+    }
+    return newText.trim().length > 0 && this.wakeWordDetector.isCancellation(newText, this.getSessionLocale());
+  }
+
+  /**
+   * The user called the query off by voice while it was being listened to or processed:
+   * abort it, play the cancellation sound and clear the display.
+   * Nothing from the cancelled query is kept in the conversation history, the webview or the database.
+   */
+  private cancelQueryByVoice(text: string): void {
+    console.log(`🚫 [${new Date().toISOString()}] Query cancelled by voice: "${text}"`);
+    this.cancelActiveQuery('Cancelled by voice');
+    this.queryProcessor.discardCurrentQuery();
+    this.resetState();
+    // Keep the utterance so its echoes in the transcription stream don't start a new query
+    this.lastProcessedQueryText = text;
+    this.audioManager.clearDisplay();
+    this.audioManager.playCancellation();
+  }
+
   /**
    * Reset all state flags and timers
    */
   private resetState(): void {
+    this.cancelActiveQuery('State reset');
     this.isListeningToQuery = false;
     this.isProcessingQuery = false;
     this.isInFollowUpMode = false;
@@ -509,6 +657,11 @@ export class TranscriptionManager {
         return;
       }
 
+      // Looking back up (down -> up) turns to the next page of a long answer
+      if (this.lastHeadPosition === 'down' && current === 'up' && this.audioManager.nextPage()) {
+        this.logger.debug('Head up detected: showing next answer page');
+      }
+
       const requireHeadUpWindow = !!this.session.settings.get<boolean>('wake_requires_head_up');
       if (!requireHeadUpWindow) {
         this.lastHeadPosition = current;
@@ -541,8 +694,9 @@ export class TranscriptionManager {
    */
   public initTranscriptionSubscription(): void {
     this.ensureTranscriptionSubscribed();
-    // Load follow-up setting on initialization
+    // Load follow-up setting and custom wake word on initialization
     this.loadFollowUpSetting();
+    this.loadWakeWordSetting();
   }
 
   /**
@@ -569,6 +723,28 @@ export class TranscriptionManager {
     await this.loadFollowUpSetting();
   }
 
+  /**
+   * Load the user's custom wake word from the database
+   */
+  private async loadWakeWordSetting(): Promise<void> {
+    try {
+      const settings = await UserSettings.findOne({ userId: this.userId });
+      this.setCustomWakeWord(settings?.wakeWord);
+    } catch (error) {
+      logger.warn({ error }, 'Failed to load custom wake word, using the default wake words only');
+    }
+  }
+
+  /**
+   * Listen for the user's own wake phrase in addition to the default ones (called when the setting changes)
+   */
+  public setCustomWakeWord(wakeWord: string | null | undefined): void {
+    this.wakeWordDetector.setCustomWakeWord(wakeWord);
+    if (wakeWord) {
+      this.logger.info(`Listening for custom wake word "${wakeWord}"`);
+    }
+  }
+
   /**
    * Handles location updates with robust error handling
    */
@@ -607,11 +783,17 @@ export class TranscriptionManager {
       this.maxListeningTimeoutId = undefined;
     }
 
+    const controller = this.startQueryAbortController();
     try {
-      await this.queryProcessor.processQuery(rawText, timerDuration, this.transcriptionStartTime, this.activeSpeakerId);
+      await this.queryProcessor.processQuery(rawText, timerDuration, this.transcriptionStartTime, this.activeSpeakerId, controller.signal);
     } catch (error) {
       logger.error(error, `[Session ${this.sessionId}]: Error in processQuery:`);
     } finally {
+      // A newer query may already own the field
+      if (this.queryAbortController === controller) {
+        this.queryAbortController = undefined;
+      }
+
       // If generation changed, an interrupt already reset state — don't clobber it
       if (myGeneration !== this.queryGeneration) {
         console.log(`⏱️  [${new Date().toISOString()}] 🚫 Skipping finally cleanup — session was interrupted (gen ${myGeneration} != ${this.queryGeneration})`);
@@ -634,11 +816,24 @@ export class TranscriptionManager {
         this.maxListeningTimeoutId = undefined;
       }
 
-      // Release processing lock — back to wake word mode
-      this.isProcessingQuery = false;
+      if (this.queryProcessor.isReplyExpected()) {
+        // The answer asked a question: take the reply without a wake word
+        this.startReplyListening();
+      } else {
+        // Release processing lock — back to wake word mode
+        this.isProcessingQuery = false;
+      }
     }
   }
 
+  /**
+   * The session's language: the transcription stream's language if reported,
+   * otherwise the transcription language setting
+   */
+  public getSessionLocale(): string {
+    return toSessionLocale(this.transcriptionLocale || this.session.settings.get<string>(TRANSCRIPTION_LANGUAGE_SETTING));
+  }
+
   /**
    * Subscribe to transcriptions if not already subscribed
    */
@@ -666,6 +861,7 @@ export class TranscriptionManager {
    * Clean up resources when the session ends
    */
   cleanup(): void {
+    this.cancelActiveQuery('Session stopped');
     this.audioManager.setShuttingDown(true);
     this.isProcessingQuery = false;
     this.isInFollowUpMode = false;
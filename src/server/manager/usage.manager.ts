@@ -0,0 +1,181 @@
+import { logger as _logger } from '@mentra/sdk';
+import { TokenUsage, ITokenCounts } from '../schemas';
+import { isDatabaseConnected } from '../utils/db.util';
+
+const logger = _logger.child({ service: 'UsageManager' });
+
+// Max tokens a user may consume per day (UTC). 0 disables the quota.
+const DAILY_TOKEN_QUOTA = parseInt(process.env.DAILY_TOKEN_QUOTA || '0', 10);
+
+// Spoken (and shown) instead of an answer once the quota is used up
+export const QUOTA_EXCEEDED_MESSAGE = "You've reached today's usage limit, so I need to take a break. I'll be ready to help again tomorrow.";
+
+/** Which part of Mira made the LLM call */
+export type UsageSource = 'agent' | 'follow_up_detection' | 'app_matching' | 'disambiguation' | 'summarizer' | 'word_limit' | 'complexity_classifier';
+
+export interface TokenUsageDelta {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Tracks LLM token usage per user per day and enforces the daily quota.
+ * Today's total is cached in memory so the quota check doesn't hit the DB on every query;
+ * without MongoDB, usage is only tracked in memory.
+ */
+export class UsageManager {
+  private todayTotals = new Map<string, { date: string; totalTokens: number }>();
+
+  private getTodayDate(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+
+  /**
+   * Daily quota in tokens, or 0 if unlimited
+   */
+  getDailyQuota(): number {
+    return Number.isFinite(DAILY_TOKEN_QUOTA) && DAILY_TOKEN_QUOTA > 0 ? DAILY_TOKEN_QUOTA : 0;
+  }
+
+  /**
+   * Pull token counts out of a LangChain message's usage_metadata
+   * @returns The counts, or null if the provider didn't report usage
+   */
+  extractUsage(message: unknown): TokenUsageDelta | null {
+    const usage = (message as { usage_metadata?: { input_tokens?: number; output_tokens?: number; total_tokens?: number } } | null)?.usage_metadata;
+    if (!usage) {
+      return null;
+    }
+    const inputTokens = usage.input_tokens || 0;
+    const outputTokens = usage.output_tokens || 0;
+    return { inputTokens, outputTokens, totalTokens: usage.total_tokens || inputTokens + outputTokens };
+  }
+
+  /**
+   * Record the usage reported on a LangChain message (no-op if it has none)
+   */
+  recordMessageUsage(userId: string, source: UsageSource, message: unknown): void {
+    const usage = this.extractUsage(message);
+    if (usage) {
+      this.recordUsage(userId, source, usage);
+    }
+  }
+
+  /**
+   * Add token usage to the user's total for today
+   */
+  recordUsage(userId: string, source: UsageSource, usage: TokenUsageDelta): void {
+    if (!userId || usage.totalTokens <= 0) {
+      return;
+    }
+
+    const date = this.getTodayDate();
+    const cached = this.todayTotals.get(userId);
+    if (cached && cached.date === date) {
+      cached.totalTokens += usage.totalTokens;
+    }
+
+    if (!isDatabaseConnected()) {
+      if (!cached || cached.date !== date) {
+        this.todayTotals.set(userId, { date, totalTokens: usage.totalTokens });
+      }
+      return;
+    }
+
+    TokenUsage.updateOne(
+      { userId, date },
+      {
+        $inc: {
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          totalTokens: usage.totalTokens,
+          requests: 1,
+          [`bySource.${source}.inputTokens`]: usage.inputTokens,
+          [`bySource.${source}.outputTokens`]: usage.outputTokens,
+          [`bySource.${source}.totalTokens`]: usage.totalTokens,
+          [`bySource.${source}.requests`]: 1,
+        },
+      },
+      { upsert: true }
+    ).catch(error => {
+      logger.error(error as Error, 'Failed to record token usage');
+    });
+  }
+
+  /**
+   * Tokens the user has used today
+   */
+  async getTodayTotal(userId: string): Promise<number> {
+    const date = this.getTodayDate();
+    const cached = this.todayTotals.get(userId);
+    if (cached && cached.date === date) {
+      return cached.totalTokens;
+    }
+
+    let totalTokens = 0;
+    if (isDatabaseConnected()) {
+      const usage = await TokenUsage.findOne({ userId, date }).lean();
+      totalTokens = usage?.totalTokens || 0;
+    }
+    this.todayTotals.set(userId, { date, totalTokens });
+    return totalTokens;
+  }
+
+  /**
+   * Whether the user has used up today's quota
+   */
+  async isOverQuota(userId: string): Promise<boolean> {
+    const quota = this.getDailyQuota();
+    if (quota === 0) {
+      return false;
+    }
+    try {
+      const used = await this.getTodayTotal(userId);
+      if (used >= quota) {
+        logger.warn({ userId, used, quota }, 'Daily token quota exceeded');
+        return true;
+      }
+    } catch (error) {
+      // Don't block the user because usage couldn't be read
+      logger.error(error as Error, 'Failed to check token quota');
+    }
+    return false;
+  }
+
+  /**
+   * Daily usage for the last `days` days (newest first), plus today's quota status
+   */
+  async getUsage(userId: string, days: number) {
+    const quota = this.getDailyQuota();
+    const usedToday = await this.getTodayTotal(userId);
+
+    let history: Array<{ date: string; inputTokens: number; outputTokens: number; totalTokens: number; requests: number; bySource: Record<string, ITokenCounts> }> = [];
+    if (isDatabaseConnected()) {
+      const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const docs = await TokenUsage.find({ userId, date: { $gte: since } }).sort({ date: -1 }).lean();
+      history = docs.map(doc => ({
+        date: doc.date,
+        inputTokens: doc.inputTokens,
+        outputTokens: doc.outputTokens,
+        totalTokens: doc.totalTokens,
+        requests: doc.requests,
+        bySource: doc.bySource || {},
+      }));
+    }
+
+    return {
+      userId,
+      today: {
+        date: this.getTodayDate(),
+        totalTokens: usedToday,
+        dailyQuota: quota || null,
+        remaining: quota ? Math.max(0, quota - usedToday) : null,
+      },
+      days: history,
+    };
+  }
+}
+
+// Singleton instance
+export const usageManager = new UsageManager();
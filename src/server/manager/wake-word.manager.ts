@@ -1,16 +1,73 @@
-import { explicitWakeWords, cancellationPhrases } from '../constant/wakeWords';
+import { explicitWakeWords, cancellationPhrases, localizedCancellationPhrases, MAX_CUSTOM_WAKE_WORD_LENGTH, MAX_CUSTOM_WAKE_WORD_WORDS, MIN_CUSTOM_WAKE_WORD_LETTERS } from '../constant/wakeWords';
+import { findPhrase, phraseSimilarity, toMatchWords } from '../utils/phonetic.util';
+import { getBaseLanguage } from '../utils/language.util';
+
+// Minimum phonetic/spelling similarity (0-1) for a misrecognized wake phrase to count.
+// 1 disables fuzzy matching; lower values catch more ASR variants but also more false wakes.
+const WAKE_WORD_MATCH_THRESHOLD = parseFloat(process.env.WAKE_WORD_MATCH_THRESHOLD || '0.8');
 
 /**
- * Handles wake word detection and text cleaning
+ * Normalize a user's custom wake phrase before it is stored
+ * (lowercase letters and spaces, 1-4 words).
+ * @returns The normalized phrase, or '' if it can't be used as a wake phrase
+ */
+export function normalizeCustomWakeWord(text: unknown): string {
+  if (typeof text !== 'string') {
+    return '';
+  }
+
+  const normalized = text
+    .toLowerCase()
+    .replace(/[-_]/g, ' ')
+    .replace(/[^\p{L}\p{N}' ]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const words = normalized.split(' ').filter(Boolean);
+  const letters = normalized.replace(/[^\p{L}]/gu, '').length;
+  if (
+    normalized.length > MAX_CUSTOM_WAKE_WORD_LENGTH ||
+    words.length > MAX_CUSTOM_WAKE_WORD_WORDS ||
+    letters < MIN_CUSTOM_WAKE_WORD_LETTERS
+  ) {
+    return '';
+  }
+  return normalized;
+}
+
+/**
+ * Handles wake word detection and text cleaning.
+ * Wake phrases are matched exactly first, then phonetically, so ASR variants
+ * like "hey mantra" or "heymentra" still wake Mira.
  */
 export class WakeWordDetector {
+  private customWakeWord: string = '';
+
+  constructor(customWakeWord?: string) {
+    this.setCustomWakeWord(customWakeWord);
+  }
+
+  /**
+   * Set the user's own wake phrase (in addition to the default ones). An empty value removes it.
+   */
+  setCustomWakeWord(wakeWord: string | null | undefined): void {
+    this.customWakeWord = normalizeCustomWakeWord(wakeWord ?? '');
+  }
+
+  /**
+   * All wake phrases currently listened for
+   */
+  getWakeWords(): string[] {
+    return this.customWakeWord ? [...explicitWakeWords, this.customWakeWord] : explicitWakeWords;
+  }
+
   /**
    * Clean text by lowercasing and removing punctuation
    */
   cleanText(text: string): string {
     return text
       .toLowerCase()
-      .replace(/[.,!?;:]/g, '') // remove all punctuation
+      .replace(/[.,!?;:。，！？；：、]/g, '') // remove all punctuation
       .replace(/\s+/g, ' ')     // normalize whitespace
       .trim();
   }
@@ -20,15 +77,24 @@ export class WakeWordDetector {
    */
   hasWakeWord(text: string): boolean {
     const cleanedText = this.cleanText(text);
-    return explicitWakeWords.some(word => cleanedText.includes(word));
+    if (this.getWakeWords().some(word => cleanedText.includes(word))) {
+      return true;
+    }
+    return this.findFuzzyWakeWord(toMatchWords(text)) !== null;
   }
 
   /**
-   * Check if text contains a cancellation phrase
+   * Check if text is a cancellation ("never mind", "wasn't talking to you").
+   * Multi-word phrases count at the end of the text; single words ("stop", "cancel")
+   * only on their own, so a query like "how do I stop the alarm" is not a cancellation.
+   * @param locale - Session or query locale; its language's phrases are checked along with English
    */
-  isCancellation(text: string): boolean {
-    const cleanedText = this.cleanText(text);
-    return cancellationPhrases.some(phrase => cleanedText.includes(phrase));
+  isCancellation(text: string, locale?: string): boolean {
+    const cleanedText = this.cleanText(text).replace(/^((oh|uh|um|sorry|okay|ok|no)\s+)+/, '');
+    const phrases = [...cancellationPhrases, ...(localizedCancellationPhrases[getBaseLanguage(locale)] || [])];
+    return phrases.some(phrase =>
+      cleanedText === phrase || (phrase.includes(' ') && cleanedText.endsWith(` ${phrase}`))
+    );
   }
 
   /**
@@ -36,11 +102,25 @@ export class WakeWordDetector {
    */
   endsWithWakeWord(text: string): boolean {
     const cleanedText = this.cleanText(text);
-    return explicitWakeWords.some(word => {
+    const wakeWords = this.getWakeWords();
+    const exactMatch = wakeWords.some(word => {
       // Build a regex to match the wake word at the end, allowing for punctuation/whitespace
       const pattern = new RegExp(`${word.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&')}$`, 'i');
       return pattern.test(cleanedText);
     });
+    if (exactMatch) {
+      return true;
+    }
+
+    // Fuzzy: the last words sound like a wake phrase
+    const words = toMatchWords(text);
+    return wakeWords.some(word => {
+      const phraseWords = toMatchWords(word);
+      const lengths = phraseWords.length > 1 ? [phraseWords.length, phraseWords.length - 1] : [1];
+      return lengths.some(length =>
+        words.length >= length && phraseSimilarity(words.slice(-length), phraseWords) >= WAKE_WORD_MATCH_THRESHOLD
+      );
+    });
   }
 
   /**
@@ -48,7 +128,7 @@ export class WakeWordDetector {
    */
   removeWakeWord(text: string): string {
     // Escape each wake word for regex special characters
-    const escapedWakeWords = explicitWakeWords.map(word =>
+    const escapedWakeWords = this.getWakeWords().map(word =>
       word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
     );
     // Build patterns that allow for spaces, commas, or periods between the words
@@ -58,6 +138,32 @@ export class WakeWordDetector {
     );
     // Create a regex that removes everything from the start until (and including) a wake word
     const wakeRegex = new RegExp(`.*?(?:${wakePatterns.join('|')})[\\s,\\.!]*`, 'i');
-    return text.replace(wakeRegex, '').trim();
+    if (wakeRegex.test(text)) {
+      return text.replace(wakeRegex, '').trim();
+    }
+
+    // Fuzzy: remove everything up to the end of the words that sounded like a wake phrase
+    const tokens = Array.from(text.matchAll(/\S+/g))
+      .map(token => ({ word: toMatchWords(token[0])[0], end: (token.index ?? 0) + token[0].length }))
+      .filter(token => token.word);
+    const match = this.findFuzzyWakeWord(tokens.map(token => token.word));
+    if (!match) {
+      return text.trim();
+    }
+    return text.slice(tokens[match.end - 1].end).replace(/^[\s,\.!]+/, '').trim();
+  }
+
+  /**
+   * Find the earliest run of words that sounds like one of the wake phrases
+   */
+  private findFuzzyWakeWord(words: string[]): { start: number; end: number } | null {
+    let earliest: { start: number; end: number } | null = null;
+    for (const wakeWord of this.getWakeWords()) {
+      const match = findPhrase(words, wakeWord, WAKE_WORD_MATCH_THRESHOLD);
+      if (match && (!earliest || match.start < earliest.start)) {
+        earliest = match;
+      }
+    }
+    return earliest;
   }
 }
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import { toAgentAnswer } from '../agents/tools/RespondTool';
+import { countWords, truncateAtSentence, WordLimitManager } from './word-limit.manager';
+
+const DISAMBIGUATION = "I found multiple apps with similar names. Which one would you like: 'Mentra Notes' or 'Mentra Notes Beta'?";
+
+describe('WordLimitManager.enforce', () => {
+  test('leaves answers within the limit alone', async () => {
+    const answer = toAgentAnswer('Paris is the capital of France.');
+    const result = await new WordLimitManager().enforce('user', answer, 10, 'control', false);
+
+    expect(result.action).toBe('none');
+    expect(result.answer).toEqual(answer);
+  });
+
+  test('does not cut answers that list options, but counts the violation', async () => {
+    const manager = new WordLimitManager();
+    const answer = toAgentAnswer(DISAMBIGUATION);
+    const result = await manager.enforce('user', answer, 5, 'control', false);
+
+    expect(result.action).toBe('none');
+    expect(result.answer.answer).toBe(DISAMBIGUATION);
+    expect(result.originalWords).toBe(countWords(DISAMBIGUATION));
+    expect(manager.getStats()[0].violations).toBe(1);
+  });
+
+  test('does not cut a detected disambiguation', async () => {
+    const answer = { ...toAgentAnswer('Tell me which of the two reminders you want to delete, the first or the second one.'), followUpExpected: true };
+    const result = await new WordLimitManager().enforce('user', answer, 5, 'control', true);
+
+    expect(result.action).toBe('none');
+    expect(result.answer).toEqual(answer);
+  });
+});
+
+describe('truncateAtSentence', () => {
+  test('keeps whole sentences that fit', () => {
+    expect(truncateAtSentence('One two three. Four five six. Seven eight.', 6)).toBe('One two three. Four five six.');
+  });
+
+  test('cuts a single long sentence mid-way', () => {
+    expect(truncateAtSentence('one two three four five six', 3)).toBe('one two three...');
+  });
+
+  test('keeps a trailing question and cuts the text before it', () => {
+    expect(truncateAtSentence('It is sunny. It is warm. It will rain later. Want the hourly forecast?', 8)).toBe('It is sunny. Want the hourly forecast?');
+    expect(truncateAtSentence('It is sunny and warm. Want the hourly forecast?', 3)).toBe('Want the hourly forecast?');
+  });
+});
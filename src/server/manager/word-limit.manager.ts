@@ -0,0 +1,214 @@
+import { logger as _logger } from '@mentra/sdk';
+import { LLMProvider } from './llm.manager';
+import { usageManager } from './usage.manager';
+import { AgentAnswer } from '../agents/tools/RespondTool';
+import { WORD_LIMIT_REWRITE_PROMPT, WORD_LIMIT_REWRITE_TIMEOUT_MS } from '../constant/unifiedPrompt';
+
+const logger = _logger.child({ service: 'WordLimitManager' });
+
+/**
+ * none      - the answer was within the limit (or exempt from it)
+ * rewritten - the LLM shortened the answer
+ * truncated - the answer was cut at a sentence boundary (rewrite failed, timed out or was still too long)
+ */
+export type WordLimitAction = 'none' | 'rewritten' | 'truncated';
+
+export interface WordLimitResult {
+  answer: AgentAnswer;
+  action: WordLimitAction;
+  wordLimit: number;
+  /** Words in the model's original answer */
+  originalWords: number;
+}
+
+interface WordLimitStats {
+  answers: number;
+  violations: number;
+  rewritten: number;
+  truncated: number;
+  totalOverflowWords: number;
+}
+
+/**
+ * Count words the way the word limits are written (whitespace separated)
+ */
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/**
+ * Whether the answer lists options for the user to pick from, e.g. "'Mentra Notes' or 'Mentra Notes Beta'"
+ * or a bulleted/numbered list
+ */
+function listsOptions(text: string): boolean {
+  const quotedAlternatives = /["'‘“][^"'’”\n]+["'’”]\s*,?\s*or\s+["'‘“]/i.test(text);
+  const listItems = text.match(/^\s*(?:[-*•]|\d+[.)])\s+\S/gm) || [];
+  return quotedAlternatives || listItems.length >= 2;
+}
+
+/**
+ * Split off a trailing question sentence, e.g. a clarifying "Do you want the full list?"
+ */
+function splitTrailingQuestion(text: string): { body: string; question: string } | null {
+  const trimmed = text.trim();
+  if (!/\?["')\]]*$/.test(trimmed)) {
+    return null;
+  }
+  const sentences = trimmed.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [trimmed];
+  const question = sentences[sentences.length - 1].trim();
+  return { body: trimmed.slice(0, trimmed.length - question.length).trim(), question };
+}
+
+/**
+ * Cut text to at most maxWords, keeping whole sentences when at least one fits.
+ * A trailing question is kept and the text before it is cut instead, so the user still hears what they're asked.
+ */
+export function truncateAtSentence(text: string, maxWords: number): string {
+  if (countWords(text) <= maxWords) {
+    return text.trim();
+  }
+
+  const split = splitTrailingQuestion(text);
+  if (split && split.body) {
+    const bodyWords = maxWords - countWords(split.question);
+    if (bodyWords <= 0) {
+      return split.question;
+    }
+    return `${truncateAtSentence(split.body, bodyWords)} ${split.question}`;
+  }
+
+  const sentences = text.trim().match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [text];
+  let kept = '';
+  for (const sentence of sentences) {
+    const candidate = kept + sentence;
+    if (countWords(candidate) > maxWords) break;
+    kept = candidate;
+  }
+  if (kept.trim()) {
+    return kept.trim();
+  }
+
+  // The first sentence alone is too long: cut it mid-sentence
+  const words = text.trim().split(/\s+/).slice(0, maxWords).join(' ');
+  return words.replace(/[,;:\-–—]+$/, '') + '...';
+}
+
+/**
+ * Enforces the response mode word limit on final answers.
+ * Answers over the limit get one cheap LLM rewrite; if that fails or still overflows,
+ * they are truncated at a sentence boundary. Disambiguations are left whole: cutting them would drop
+ * the options the user has to pick from. Violations are counted per prompt variant, exempt answers included.
+ */
+export class WordLimitManager {
+  private statsPerVariant = new Map<string, WordLimitStats>();
+
+  private getOrCreate(promptVariant: string): WordLimitStats {
+    let stats = this.statsPerVariant.get(promptVariant);
+    if (!stats) {
+      stats = { answers: 0, violations: 0, rewritten: 0, truncated: 0, totalOverflowWords: 0 };
+      this.statsPerVariant.set(promptVariant, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Make an agent answer fit the word limit
+   * @param userId - User the rewrite's token usage is recorded against
+   * @param answer - The agent's final answer
+   * @param wordLimit - Word limit of the active response config
+   * @param promptVariant - Prompt variant that produced the answer (for violation stats)
+   * @param disambiguation - The answer asks the user to pick between detected candidates
+   * @param signal - Cancels the rewrite (e.g. the query was superseded)
+   */
+  async enforce(userId: string, answer: AgentAnswer, wordLimit: number, promptVariant: string, disambiguation: boolean, signal?: AbortSignal): Promise<WordLimitResult> {
+    const stats = this.getOrCreate(promptVariant);
+    stats.answers++;
+
+    const originalWords = countWords(answer.answer);
+    const overLimit = [answer.answer, answer.spokenText, answer.displayText].some(text => countWords(text) > wordLimit);
+    if (!overLimit) {
+      return { answer, action: 'none', wordLimit, originalWords };
+    }
+
+    stats.violations++;
+    stats.totalOverflowWords += Math.max(0, originalWords - wordLimit);
+    logger.warn({ userId, promptVariant, wordLimit, words: originalWords }, 'Answer exceeded the word limit');
+
+    if (disambiguation || listsOptions(answer.answer)) {
+      return { answer, action: 'none', wordLimit, originalWords };
+    }
+
+    let action: WordLimitAction = 'none';
+    let shortened = answer.answer;
+    if (originalWords > wordLimit) {
+      const rewritten = await this.rewrite(userId, answer.answer, wordLimit, signal);
+      if (rewritten && countWords(rewritten) <= wordLimit) {
+        shortened = rewritten;
+        action = 'rewritten';
+      } else {
+        shortened = truncateAtSentence(rewritten || answer.answer, wordLimit);
+        action = 'truncated';
+      }
+    }
+
+    // Spoken/display versions that mirrored the answer follow it; custom ones are truncated on their own
+    const fit = (text: string): string => {
+      if (text === answer.answer) return shortened;
+      if (countWords(text) <= wordLimit) return text;
+      if (action === 'none') action = 'truncated';
+      return truncateAtSentence(text, wordLimit);
+    };
+
+    const result: AgentAnswer = {
+      ...answer,
+      answer: shortened,
+      spokenText: fit(answer.spokenText),
+      displayText: fit(answer.displayText),
+    };
+
+    if (action === 'rewritten') stats.rewritten++;
+    if (action === 'truncated') stats.truncated++;
+    return { answer: result, action, wordLimit, originalWords };
+  }
+
+  /**
+   * Ask the LLM for a shorter version of the answer. Returns null on failure or timeout.
+   */
+  private async rewrite(userId: string, text: string, wordLimit: number, signal?: AbortSignal): Promise<string | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), WORD_LIMIT_REWRITE_TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const prompt = WORD_LIMIT_REWRITE_PROMPT
+        .replace('{word_limit}', String(wordLimit))
+        .replace('{answer}', () => text);
+      const result = await LLMProvider.withFallback(Math.max(100, wordLimit * 4), (llm) => llm.invoke(prompt, { signal: controller.signal }), controller.signal);
+      usageManager.recordMessageUsage(userId, 'word_limit', result);
+      const rewritten = result.content.toString().trim().replace(/^["']|["']$/g, '');
+      return rewritten || null;
+    } catch (error) {
+      logger.warn({ userId, timedOut: controller.signal.aborted && !signal?.aborted, error: String(error) }, 'Word limit rewrite failed, truncating instead');
+      return null;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Get word limit statistics per prompt variant
+   */
+  getStats() {
+    return Array.from(this.statsPerVariant.entries()).map(([promptVariant, stats]) => ({
+      promptVariant,
+      ...stats,
+      violationRate: stats.answers > 0 ? stats.violations / stats.answers : 0,
+    }));
+  }
+}
+
+// Singleton instance
+export const wordLimitManager = new WordLimitManager();
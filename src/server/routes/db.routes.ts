@@ -23,6 +23,24 @@ export function createDbRoutes(dbAPI: DatabaseAPI): Router {
   // PATCH /api/db/settings/theme - Update theme only
   router.patch('/settings/theme', jsonParser, (req, res) => dbAPI.updateTheme(req, res));
 
+  // GET /api/db/settings/models - Get the allowed text and vision models
+  router.get('/settings/models', (req, res) => dbAPI.getAvailableModels(req, res));
+
+  // PATCH /api/db/settings/models - Update textModel and/or visionModel
+  router.patch('/settings/models', jsonParser, (req, res) => dbAPI.updateModels(req, res));
+
+  // GET /api/db/settings/prompt-variant - Get the user's prompt experiment variant
+  router.get('/settings/prompt-variant', (req, res) => dbAPI.getPromptVariant(req, res));
+
+  // PATCH /api/db/settings/prompt-variant - Pin or unpin the user's prompt variant
+  router.patch('/settings/prompt-variant', jsonParser, (req, res) => dbAPI.updatePromptVariant(req, res));
+
+  // PATCH /api/db/settings/custom-instructions - Update custom instructions only
+  router.patch('/settings/custom-instructions', jsonParser, (req, res) => dbAPI.updateCustomInstructions(req, res));
+
+  // PATCH /api/db/settings/wake-word - Update custom wake phrase only
+  router.patch('/settings/wake-word', jsonParser, (req, res) => dbAPI.updateWakeWord(req, res));
+
   // PATCH /api/db/settings/follow-up - Update followUpEnabled only
   router.patch('/settings/follow-up', jsonParser, (req, res) => dbAPI.updateFollowUpEnabled(req, res));
 
@@ -43,5 +61,21 @@ export function createDbRoutes(dbAPI: DatabaseAPI): Router {
   // PATCH /api/db/conversations/:date/read - Mark conversation as read
   router.patch('/conversations/:date/read', jsonParser, (req, res) => dbAPI.markConversationRead(req, res));
 
+  // ==================== MEMORY ROUTES ====================
+
+  // GET /api/db/memories - Get all long-term memories for a user
+  router.get('/memories', (req, res) => dbAPI.getMemories(req, res));
+
+  // POST /api/db/memories - Add a long-term memory
+  router.post('/memories', jsonParser, (req, res) => dbAPI.addMemory(req, res));
+
+  // DELETE /api/db/memories/:id - Delete a long-term memory
+  router.delete('/memories/:id', (req, res) => dbAPI.deleteMemory(req, res));
+
+  // ==================== USAGE ROUTES ====================
+
+  // GET /api/db/usage - Get daily token usage and quota status for a user
+  router.get('/usage', (req, res) => dbAPI.getUsage(req, res));
+
   return router;
 }
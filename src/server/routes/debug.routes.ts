@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { DebugAPI } from '../api/debug.api';
+
+/**
+ * Creates debug routes for runtime diagnostics
+ * @param debugAPI - The DebugAPI controller instance
+ * @returns Express Router with debug routes
+ */
+export function createDebugRoutes(debugAPI: DebugAPI): Router {
+  const router = Router();
+
+  // GET /api/debug/hedge-stats - Get LLM hedging statistics for a user
+  router.get('/hedge-stats', (req, res) => debugAPI.getHedgeStats(req, res));
+
+  // GET /api/debug/llm-providers - Get LLM provider fallback chain and health
+  router.get('/llm-providers', (req, res) => debugAPI.getProviderHealth(req, res));
+
+  // GET /api/debug/word-limits - Get word limit violation statistics per prompt variant
+  router.get('/word-limits', (req, res) => debugAPI.getWordLimitStats(req, res));
+
+  // GET /api/debug/traces - Get recent agent query traces for a user
+  router.get('/traces', (req, res) => debugAPI.getTraces(req, res));
+
+  // DELETE /api/debug/traces - Clear agent query traces for a user
+  router.delete('/traces', (req, res) => debugAPI.clearTraces(req, res));
+
+  return router;
+}
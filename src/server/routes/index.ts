@@ -1,3 +1,4 @@
 export * from './chat.routes';
 export * from './transcription.routes';
 export * from './db.routes';
+export * from './debug.routes';
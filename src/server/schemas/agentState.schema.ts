@@ -0,0 +1,71 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Persisted MiraAgent state so a reconnect doesn't wipe the conversation
+export interface IAgentState extends Document {
+  userId: string;
+  conversationHistory: Array<{ query: string; response: string; timestamp: number; hadImage?: boolean }>;
+  conversationSummary: string;
+  conversationSummaryUpdatedAt: number;
+  pendingDisambiguation: Record<string, any> | null;
+  locationContext: Record<string, any> | null;
+  responseModeOverride: Record<string, any> | null;
+  expiresAt: Date; // State is discarded after the reconnect grace period
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const conversationTurnSchema = new Schema(
+  {
+    query: { type: String, required: true },
+    response: { type: String, required: true },
+    timestamp: { type: Number, required: true },
+    hadImage: { type: Boolean },
+  },
+  { _id: false }
+);
+
+const agentStateSchema = new Schema<IAgentState>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    conversationHistory: {
+      type: [conversationTurnSchema],
+      default: [],
+    },
+    conversationSummary: {
+      type: String,
+      default: '',
+    },
+    conversationSummaryUpdatedAt: {
+      type: Number,
+      default: 0,
+    },
+    pendingDisambiguation: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    locationContext: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    responseModeOverride: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// TTL index - MongoDB removes the document once expiresAt has passed
+agentStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AgentState = model<IAgentState>('AgentState', agentStateSchema);
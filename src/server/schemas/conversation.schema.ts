@@ -7,9 +7,14 @@ export interface IMessage {
   role: 'user' | 'assistant';
   content: string;
   photoTimestamp?: number; // Unix timestamp of when the photo was taken (if any)
+  promptVariant?: string; // Prompt experiment variant that produced this answer (assistant messages)
+  toolsUsed?: string[]; // Tools the agent called while answering (assistant messages)
   timestamp: Date;
 }
 
+// Prompt experiment data stored with an assistant message
+export type MessageExperimentData = Pick<IMessage, 'promptVariant' | 'toolsUsed'>;
+
 // A single conversation/chat - one per day per user
 export interface IConversation extends Document {
   userId: string;
@@ -43,6 +48,13 @@ const messageSchema = new Schema<IMessage>(
     photoTimestamp: {
       type: Number,
     },
+    promptVariant: {
+      type: String,
+    },
+    toolsUsed: {
+      type: [String],
+      default: undefined,
+    },
     timestamp: {
       type: Date,
       default: Date.now,
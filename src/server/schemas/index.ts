@@ -2,4 +2,13 @@ export { UserSettings } from './userSettings.schema';
 export type { IUserSettings } from './userSettings.schema';
 
 export { Conversation } from './conversation.schema';
-export type { IConversation, IMessage } from './conversation.schema';
+export type { IConversation, IMessage, MessageExperimentData } from './conversation.schema';
+
+export { Memory } from './memory.schema';
+export type { IMemory } from './memory.schema';
+
+export { AgentState } from './agentState.schema';
+export type { IAgentState } from './agentState.schema';
+
+export { TokenUsage } from './tokenUsage.schema';
+export type { ITokenUsage, ITokenCounts } from './tokenUsage.schema';
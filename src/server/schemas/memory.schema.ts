@@ -0,0 +1,38 @@
+import { Schema, model, Document } from 'mongoose';
+
+// A single long-term fact about a user (e.g. "Allergic to peanuts")
+export interface IMemory extends Document {
+  userId: string;
+  content: string;
+  source: 'agent' | 'user'; // Saved by the agent via Remember_Fact, or added through the API
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const memorySchema = new Schema<IMemory>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    content: {
+      type: String,
+      required: true,
+      maxlength: 500,
+    },
+    source: {
+      type: String,
+      enum: ['agent', 'user'],
+      default: 'agent',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for listing a user's memories newest first
+memorySchema.index({ userId: 1, createdAt: -1 });
+
+export const Memory = model<IMemory>('Memory', memorySchema);
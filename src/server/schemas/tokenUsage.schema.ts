@@ -0,0 +1,65 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Token counts for one kind of LLM call (agent loop, app matching, ...)
+export interface ITokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  requests: number;
+}
+
+// A user's LLM token usage for one day (UTC)
+export interface ITokenUsage extends Document {
+  userId: string;
+  date: string; // YYYY-MM-DD
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  requests: number;
+  bySource: Record<string, ITokenCounts>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const tokenUsageSchema = new Schema<ITokenUsage>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    date: {
+      type: String,
+      required: true,
+    },
+    inputTokens: {
+      type: Number,
+      default: 0,
+    },
+    outputTokens: {
+      type: Number,
+      default: 0,
+    },
+    totalTokens: {
+      type: Number,
+      default: 0,
+    },
+    requests: {
+      type: Number,
+      default: 0,
+    },
+    bySource: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+// One document per user per day
+tokenUsageSchema.index({ userId: 1, date: 1 }, { unique: true });
+
+export const TokenUsage = model<ITokenUsage>('TokenUsage', tokenUsageSchema);
@@ -4,10 +4,16 @@ export interface IUserSettings extends Document {
   userId: string;
   textModel: string;
   visionModel: string;
+  /** Whether the user picked textModel / visionModel (otherwise the operator's provider chain is used) */
+  textModelChosen: boolean;
+  visionModelChosen: boolean;
   personality: 'default' | 'professional' | 'friendly' | 'candid' | 'quirky' | 'efficient';
   theme: 'light' | 'dark';
   followUpEnabled: boolean;
   chatHistoryEnabled: boolean;
+  customInstructions: string; // Free-form notes added to the system prompt (sanitized, max 500 chars)
+  wakeWord: string; // User's own wake phrase, listened for alongside "hey mentra" ('' = none)
+  promptVariant?: string | null; // Explicit prompt experiment variant; unset = assigned by userId hash
   createdAt: Date;
   updatedAt: Date;
 }
@@ -28,6 +34,14 @@ const userSettingsSchema = new Schema<IUserSettings>(
       type: String,
       default: 'Gemini Flash Latest',
     },
+    textModelChosen: {
+      type: Boolean,
+      default: false,
+    },
+    visionModelChosen: {
+      type: Boolean,
+      default: false,
+    },
     personality: {
       type: String,
       enum: ['default', 'professional', 'friendly', 'candid', 'quirky', 'efficient'],
@@ -46,6 +60,20 @@ const userSettingsSchema = new Schema<IUserSettings>(
       type: Boolean,
       default: false,
     },
+    customInstructions: {
+      type: String,
+      default: '',
+      maxlength: 500,
+    },
+    wakeWord: {
+      type: String,
+      default: '',
+      maxlength: 40,
+    },
+    promptVariant: {
+      type: String,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,71 @@
+/**
+ * Rolling Conversation Summarizer
+ * Folds conversation turns that no longer fit in the prompt into a short running summary,
+ * so older context is compressed instead of dropped.
+ */
+
+import { LLMProvider } from '../manager/llm.manager';
+import { usageManager } from '../manager/usage.manager';
+import { CONVERSATION_SUMMARY_PROMPT, CONVERSATION_SUMMARY_MAX_WORDS } from '../constant/unifiedPrompt';
+
+export interface SummarizableTurn {
+  query: string;
+  response: string;
+}
+
+/**
+ * Rough token estimate (~4 characters per token) used for prompt budgeting
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Trim text to a maximum number of words, keeping either the start or the (most recent) end
+ */
+function limitWords(text: string, maxWords: number, keep: 'start' | 'end' = 'start'): string {
+  const words = text.trim().split(/\s+/);
+  if (words.length <= maxWords) {
+    return text.trim();
+  }
+  return keep === 'start'
+    ? words.slice(0, maxWords).join(' ') + '...'
+    : '...' + words.slice(-maxWords).join(' ');
+}
+
+/**
+ * Fold evicted turns into the existing summary.
+ * If the LLM call fails, the turns are appended as short one-line notes so nothing is lost silently.
+ * @param previousSummary - The current rolling summary ('' if none)
+ * @param turns - Turns being evicted from the raw history, oldest first
+ * @param userId - User the token usage is recorded against
+ * @returns The updated summary
+ */
+export async function summarizeConversation(previousSummary: string, turns: SummarizableTurn[], userId?: string): Promise<string> {
+  if (turns.length === 0) {
+    return previousSummary;
+  }
+
+  const turnsText = turns
+    .map(turn => `User: ${turn.query}\nMentra AI: ${turn.response}`)
+    .join('\n\n');
+
+  try {
+    const prompt = CONVERSATION_SUMMARY_PROMPT
+      .replace('{summary}', previousSummary || '(none yet)')
+      .replace('{turns}', turnsText);
+    const result = await LLMProvider.withFallback(400, (llm) => llm.invoke(prompt));
+    if (userId) {
+      usageManager.recordMessageUsage(userId, 'summarizer', result);
+    }
+    const summary = result.content.toString().trim();
+    if (summary) {
+      return limitWords(summary, CONVERSATION_SUMMARY_MAX_WORDS);
+    }
+  } catch (error) {
+    console.error('📚 [ConversationSummary] Summarization failed, using fallback notes:', error);
+  }
+
+  const notes = turns.map(turn => `The user asked "${limitWords(turn.query, 12)}".`).join(' ');
+  return limitWords(`${previousSummary} ${notes}`.trim(), CONVERSATION_SUMMARY_MAX_WORDS, 'end');
+}
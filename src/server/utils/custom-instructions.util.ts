@@ -0,0 +1,39 @@
+/**
+ * Custom Instructions
+ * Free-form notes the user wants Mira to keep in mind ("call me Sam", "answer in metric").
+ * They are injected into the system prompt, so they are sanitized first.
+ */
+
+/** Max characters of custom instructions stored per user */
+export const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 500;
+
+// Control characters other than newline and tab
+const CONTROL_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
+
+// Text that could impersonate prompt structure or the agent's own output markers
+const PROMPT_MARKERS = /(Final Answer:|^\s*(system|assistant|user)\s*:|```)/gim;
+
+/**
+ * Clean up user-written custom instructions before they are stored or put into the prompt:
+ * strips control characters, prompt placeholders/markers and excess whitespace,
+ * then limits the length.
+ */
+export function sanitizeCustomInstructions(text: unknown): string {
+  if (typeof text !== 'string') {
+    return '';
+  }
+
+  return text
+    .replace(CONTROL_CHARS, '')
+    // Braces would be read as prompt placeholders (e.g. "{tool_names}")
+    .replace(/[{}]/g, '')
+    .replace(PROMPT_MARKERS, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_CUSTOM_INSTRUCTIONS_LENGTH)
+    .trim();
+}
@@ -4,7 +4,8 @@
  * (e.g., multiple apps with similar names)
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { usageManager, type TokenUsageDelta } from '../manager/usage.manager';
+import { LLMProvider } from '../manager/llm.manager';
 
 export interface DisambiguationCandidate {
   name: string;
@@ -16,6 +17,8 @@ export interface DisambiguationResult {
   isDisambiguation: boolean;
   candidates: DisambiguationCandidate[];
   reasoning: string;
+  /** Tokens used by the detection call (absent when the LLM wasn't called) */
+  usage?: TokenUsageDelta;
 }
 
 const DISAMBIGUATION_DETECTION_PROMPT = `You are analyzing an AI assistant's response to determine if it's asking the user to choose between multiple similar options (disambiguation).
@@ -51,17 +54,6 @@ Respond with ONLY valid JSON in this exact format (no extra text):
 If not a disambiguation, use empty candidates array: {"isDisambiguation": false, "candidates": [], "reasoning": "..."}`;
 
 export class DisambiguationDetector {
-  private ai: GoogleGenAI;
-  private model: string = 'gemini-2.0-flash';
-
-  constructor() {
-    const apiKey = process.env.GEMENI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMENI_API_KEY environment variable is required');
-    }
-    this.ai = new GoogleGenAI({ apiKey });
-  }
-
   /**
    * Detect if a response is asking for disambiguation and extract candidates
    * @param response - The AI assistant's response text
@@ -80,16 +72,10 @@ export class DisambiguationDetector {
     try {
       const prompt = DISAMBIGUATION_DETECTION_PROMPT.replace('{response}', response);
 
-      const result = await this.ai.models.generateContent({
-        model: this.model,
-        contents: prompt,
-        config: {
-          maxOutputTokens: 200,
-          temperature: 0,
-        },
-      });
+      const result = await LLMProvider.withFallback(200, (llm) => llm.invoke(prompt));
 
-      const responseText = result.text?.trim() || '';
+      const responseText = result.content.toString().trim();
+      const usage: TokenUsageDelta | undefined = usageManager.extractUsage(result) ?? undefined;
       console.log(`🔍 [DisambiguationDetector] Raw AI response: ${responseText}`);
 
       // Parse the JSON response
@@ -112,7 +98,8 @@ export class DisambiguationDetector {
         const result: DisambiguationResult = {
           isDisambiguation: Boolean(parsed.isDisambiguation),
           candidates,
-          reasoning: parsed.reasoning || ''
+          reasoning: parsed.reasoning || '',
+          usage,
         };
 
         console.log(`🔍 [DisambiguationDetector] Result: isDisambiguation=${result.isDisambiguation}, candidates=${result.candidates.map(c => c.name).join(', ')}`);
@@ -122,7 +109,8 @@ export class DisambiguationDetector {
         return {
           isDisambiguation: false,
           candidates: [],
-          reasoning: 'Failed to parse AI response'
+          reasoning: 'Failed to parse AI response',
+          usage,
         };
       }
     } catch (error) {
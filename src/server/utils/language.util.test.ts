@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test';
+import { detectLanguage, resolveQueryLocale } from './language.util';
+
+describe('detectLanguage', () => {
+  test('detects languages from their script', () => {
+    expect(detectLanguage('今日の天気は？')).toBe('ja');
+    expect(detectLanguage('오늘 날씨 어때')).toBe('ko');
+  });
+
+  test('detects Latin-script languages from stop words', () => {
+    expect(detectLanguage('quelle est la météo aujourd\'hui')).toBe('fr');
+    expect(detectLanguage('what is the weather today')).toBe('en');
+  });
+
+  test('returns null for text that is too short to tell', () => {
+    expect(detectLanguage('hola')).toBeNull();
+  });
+});
+
+describe('resolveQueryLocale', () => {
+  test('keeps the session locale for a borrowed foreign phrase', () => {
+    expect(resolveQueryLocale("what does c'est la vie mean", 'en-US')).toBe('en-US');
+  });
+
+  test('switches to a language that clearly outscores the session language', () => {
+    expect(resolveQueryLocale("quelle est la météo aujourd'hui", 'en-US')).toBe('fr-FR');
+    expect(resolveQueryLocale('what is the weather in my city', 'de-DE')).toBe('en-US');
+  });
+
+  test('follows a language-specific script that makes up most of the query', () => {
+    expect(resolveQueryLocale('今日の天気は？', 'en-US')).toBe('ja-JP');
+    expect(resolveQueryLocale('今天天气怎么样', 'en-US')).toBe('zh-CN');
+    expect(resolveQueryLocale('请帮我打开 Mentra Notes', 'en-US')).toBe('zh-CN');
+  });
+
+  test('keeps the session locale for a foreign-script word in the sentence', () => {
+    expect(resolveQueryLocale('what does 你好 mean', 'en-US')).toBe('en-US');
+    expect(resolveQueryLocale('how do I get to 東京 station', 'en-US')).toBe('en-US');
+  });
+
+  test('keeps the session locale when the query is in its language', () => {
+    expect(resolveQueryLocale('¿qué tiempo hace en mi ciudad?', 'es-MX')).toBe('es-MX');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Query language detection
+ * Picks the language Mira should answer in: the query's own language when it can be told
+ * from the text, otherwise the session's transcription locale.
+ */
+
+import { languageToLocale } from '../constant/languageLocale';
+
+export const DEFAULT_LOCALE = 'en-US';
+
+/** English names used in the prompt ("answer in Spanish") */
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ru: 'Russian',
+  ar: 'Arabic',
+  hi: 'Hindi',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+};
+
+// Locale used when a language is detected from the text and the session locale is a different language
+const DEFAULT_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  it: 'it-IT',
+  pt: 'pt-BR',
+  nl: 'nl-NL',
+  ru: 'ru-RU',
+  ar: 'ar-SA',
+  hi: 'hi-IN',
+  zh: 'zh-CN',
+  ja: 'ja-JP',
+  ko: 'ko-KR',
+};
+
+// Scripts that identify a language on their own (checked in order — Japanese before Chinese, as kanji are Han)
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/[\u3040-\u30FF\u4E00-\u9FFF]/, 'ja'],
+  [/[\uAC00-\uD7AF]/, 'ko'],
+  [/[\u4E00-\u9FFF]/, 'zh'],
+  [/[\u0600-\u06FF]/, 'ar'],
+  [/[\u0900-\u097F]/, 'hi'],
+  [/[\u0400-\u04FF]/, 'ru'],
+];
+
+// Japanese text always has some kana; Han without kana is read as Chinese
+const KANA = /[\u3040-\u30FF]/;
+
+// Word-sized units of text: each kana, Hangul or Han character (these scripts pack about a word into a
+// character or two), or a run of letters in any other script
+const TEXT_UNITS = /[\u3040-\u30FF\uAC00-\uD7AF\u4E00-\u9FFF]|(?:(?![\u3040-\u30FF\uAC00-\uD7AF\u4E00-\u9FFF])[\p{L}\p{M}])+/gu;
+
+// Common short words for telling Latin-script languages apart
+const STOP_WORDS: Record<string, string[]> = {
+  en: ['the', 'is', 'what', 'how', 'are', 'you', 'and', 'of', 'to', 'my', 'in', 'it', 'can', 'this', 'that', 'where', 'when', 'who', 'me', 'do'],
+  es: ['el', 'la', 'es', 'qué', 'que', 'cómo', 'como', 'los', 'las', 'de', 'y', 'en', 'un', 'una', 'por', 'mi', 'dónde', 'cuál', 'está', 'puedes'],
+  fr: ['le', 'la', 'les', 'est', 'quel', 'quelle', 'comment', 'de', 'et', 'un', 'une', 'je', 'tu', 'vous', 'mon', 'où', 'qui', 'que', 'des', 'c\'est'],
+  de: ['der', 'die', 'das', 'ist', 'was', 'wie', 'und', 'ich', 'du', 'ein', 'eine', 'mein', 'wo', 'wer', 'nicht', 'mit', 'zu', 'den', 'kannst', 'welche'],
+  it: ['il', 'lo', 'la', 'è', 'che', 'come', 'cosa', 'di', 'e', 'un', 'una', 'mi', 'dove', 'chi', 'sono', 'del', 'della', 'quale', 'puoi', 'per'],
+  pt: ['o', 'a', 'é', 'que', 'como', 'qual', 'de', 'e', 'um', 'uma', 'meu', 'onde', 'quem', 'você', 'do', 'da', 'não', 'está', 'isso', 'pode'],
+  nl: ['de', 'het', 'is', 'wat', 'hoe', 'een', 'en', 'ik', 'jij', 'mijn', 'waar', 'wie', 'niet', 'van', 'dat', 'kun', 'je', 'welke', 'op', 'zijn'],
+};
+
+// A Latin-script guess needs at least this many stop-word hits and a clear lead over the runner-up
+const MIN_STOP_WORD_HITS = 2;
+// To override the session language, a Latin-script guess must lead the session language's own hits
+// by this much, so a borrowed phrase ("what does c'est la vie mean") doesn't switch languages
+const SESSION_OVERRIDE_MARGIN = 2;
+
+/**
+ * Base language of a locale ("es-MX" -> "es")
+ */
+export function getBaseLanguage(locale: string | undefined | null): string {
+  return (locale || DEFAULT_LOCALE).split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Human-readable name of a locale's language, for the prompt
+ */
+export function getLanguageName(locale: string | undefined | null): string {
+  return LANGUAGE_NAMES[getBaseLanguage(locale)] || 'English';
+}
+
+/**
+ * Guess a query's language from its text
+ * @returns A base language code, or null if the text is too short or ambiguous
+ */
+export function detectLanguage(text: string): string | null {
+  return detectScriptLanguage(text) || detectStopWordLanguage(countStopWords(text));
+}
+
+/**
+ * Language of a script that identifies it on its own (kana, Hangul, Han, Arabic, Devanagari, Cyrillic).
+ * The script has to make up most of the text, so a foreign word in a sentence ("what does 你好 mean")
+ * doesn't decide the language.
+ */
+function detectScriptLanguage(text: string): string | null {
+  const units = text.match(TEXT_UNITS) || [];
+  for (const [script, language] of SCRIPT_LANGUAGES) {
+    if (language === 'ja' && !KANA.test(text)) {
+      continue;
+    }
+    const inScript = units.filter(unit => script.test(unit)).length;
+    if (inScript > units.length / 2) {
+      return language;
+    }
+  }
+  return null;
+}
+
+/**
+ * Stop-word hits per Latin-script language
+ */
+function countStopWords(text: string): Record<string, number> {
+  const words = text.toLowerCase().replace(/[^\p{L}\s']/gu, ' ').split(/\s+/).filter(Boolean);
+  return Object.fromEntries(
+    Object.entries(STOP_WORDS).map(([language, stopWords]) => [language, words.filter(word => stopWords.includes(word)).length])
+  );
+}
+
+function detectStopWordLanguage(hits: Record<string, number>): string | null {
+  const [best, runnerUp] = Object.entries(hits).sort((a, b) => b[1] - a[1]);
+  if (best[1] >= MIN_STOP_WORD_HITS && best[1] > runnerUp[1]) {
+    return best[0];
+  }
+  return null;
+}
+
+/**
+ * Locale for the session's transcription: a BCP-47 code from the transcription stream,
+ * or a language display name from settings (e.g. "German (Austria)")
+ */
+export function toSessionLocale(language: string | undefined | null): string {
+  if (!language) {
+    return DEFAULT_LOCALE;
+  }
+  return /^[a-z]{2,3}([-_][A-Za-z0-9]+)*$/.test(language) ? language.replace('_', '-') : languageToLocale(language);
+}
+
+/**
+ * The locale to answer a query in: the session locale unless the query is clearly in another language.
+ * A script guess wins when the script makes up most of the query; a stop-word guess has to clearly
+ * outscore the session language.
+ */
+export function resolveQueryLocale(text: string, sessionLocale: string = DEFAULT_LOCALE): string {
+  const sessionLanguage = getBaseLanguage(sessionLocale);
+  let detected = detectScriptLanguage(text);
+  if (!detected) {
+    const hits = countStopWords(text);
+    detected = detectStopWordLanguage(hits);
+    if (detected && hits[detected] - (hits[sessionLanguage] || 0) < SESSION_OVERRIDE_MARGIN) {
+      return sessionLocale;
+    }
+  }
+  if (!detected || detected === sessionLanguage) {
+    return sessionLocale;
+  }
+  return DEFAULT_LOCALES[detected] || sessionLocale;
+}
@@ -0,0 +1,173 @@
+/**
+ * Deterministic mock chat model (LLM_PROVIDER=mock)
+ * Replays scripted responses, including tool calls, from a fixture so the agent
+ * can be exercised fully offline.
+ */
+
+import { readFileSync } from 'fs';
+import { BaseChatModel, type BaseChatModelParams, type BindToolsInput } from '@langchain/core/language_models/chat_models';
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+
+// Fixture loaded when the mock provider is first used (a JSON file in the MockLLMFixture format)
+const MOCK_LLM_FIXTURES = process.env.MOCK_LLM_FIXTURES || '';
+
+export interface MockToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  id?: string;
+}
+
+export interface MockResponse {
+  /** Only used when this case-insensitive regex matches the last human message */
+  match?: string;
+  /** agent: only for calls with tools bound (the agent loop); plain: only for calls without (classifiers, summaries) */
+  kind?: 'agent' | 'plain';
+  content?: string;
+  tool_calls?: MockToolCall[];
+  /** Keep the response after it is used (e.g. a model that keeps calling the same tool) */
+  repeat?: boolean;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export interface MockLLMFixture {
+  description?: string;
+  /** Replayed in order; each call uses the first unused response that matches */
+  responses: MockResponse[];
+  /** Used when no response matches; without it the call fails */
+  fallback?: MockResponse;
+}
+
+export interface MockLLMCall {
+  messages: BaseMessage[];
+  tools: string[];
+  response: MockResponse | null;
+}
+
+interface MockLLMState {
+  fixture: MockLLMFixture;
+  used: Set<number>;
+  calls: MockLLMCall[];
+  toolCallCounter: number;
+}
+
+let state: MockLLMState | null = null;
+
+/**
+ * Load a fixture, replacing the current script and clearing recorded calls
+ */
+export function setMockLLMFixture(fixture: MockLLMFixture): void {
+  state = { fixture, used: new Set(), calls: [], toolCallCounter: 0 };
+}
+
+/**
+ * Load a fixture from a JSON file
+ */
+export function loadMockLLMFixture(path: string): MockLLMFixture {
+  const fixture = JSON.parse(readFileSync(path, 'utf-8')) as MockLLMFixture;
+  setMockLLMFixture(fixture);
+  return fixture;
+}
+
+/**
+ * Every call made to the mock since the fixture was loaded, in order
+ */
+export function getMockLLMCalls(): MockLLMCall[] {
+  return state?.calls || [];
+}
+
+/**
+ * Drop the loaded fixture and recorded calls
+ */
+export function resetMockLLM(): void {
+  state = null;
+}
+
+function getState(): MockLLMState {
+  if (!state) {
+    if (MOCK_LLM_FIXTURES) {
+      loadMockLLMFixture(MOCK_LLM_FIXTURES);
+    } else {
+      setMockLLMFixture({ responses: [] });
+    }
+  }
+  return state!;
+}
+
+function lastHumanText(messages: BaseMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]._getType() === 'human') {
+      const content = messages[i].content;
+      return typeof content === 'string'
+        ? content
+        : content.map(part => (part.type === 'text' ? (part as { text: string }).text : '')).join(' ');
+    }
+  }
+  return '';
+}
+
+/**
+ * Chat model that answers from the loaded fixture instead of calling a provider
+ */
+export class MockChatModel extends BaseChatModel {
+  private boundTools: string[] = [];
+
+  constructor(fields: BaseChatModelParams = {}) {
+    super(fields);
+  }
+
+  _llmType(): string {
+    return 'mock';
+  }
+
+  /**
+   * Tools are only recorded; which tool gets called comes from the fixture
+   */
+  bindTools(tools: BindToolsInput[]) {
+    const bound = new MockChatModel();
+    bound.boundTools = tools.map(tool => (tool as { name?: string }).name || 'unknown');
+    return bound;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const current = getState();
+    const text = lastHumanText(messages);
+
+    const kind = this.boundTools.length > 0 ? 'agent' : 'plain';
+    const index = current.fixture.responses.findIndex((response, i) =>
+      !current.used.has(i)
+      && (!response.kind || response.kind === kind)
+      && (!response.match || new RegExp(response.match, 'i').test(text))
+    );
+    const response = index >= 0 ? current.fixture.responses[index] : current.fixture.fallback || null;
+    if (index >= 0 && !response!.repeat) {
+      current.used.add(index);
+    }
+    current.calls.push({ messages: [...messages], tools: this.boundTools, response });
+
+    if (!response) {
+      throw new Error(`No mock LLM response for: "${text.substring(0, 100)}"`);
+    }
+
+    const message = new AIMessage({
+      content: response.content || '',
+      tool_calls: (response.tool_calls || []).map(call => ({
+        name: call.name,
+        args: call.args,
+        id: call.id || `mock_call_${++current.toolCallCounter}`,
+        type: 'tool_call' as const,
+      })),
+      ...(response.usage
+        ? {
+            usage_metadata: {
+              input_tokens: response.usage.input_tokens,
+              output_tokens: response.usage.output_tokens,
+              total_tokens: response.usage.input_tokens + response.usage.output_tokens,
+            },
+          }
+        : {}),
+    });
+
+    return { generations: [{ text: message.content.toString(), message }] };
+  }
+}
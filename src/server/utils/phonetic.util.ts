@@ -0,0 +1,239 @@
+/**
+ * Phonetic matching
+ * Fuzzy comparison of spoken phrases, so ASR misspellings of a wake phrase
+ * ("hey mantra", "hey mentor", "heymentra") still match it.
+ * Words are reduced to a simplified Double Metaphone key (primary encoding only),
+ * and keys and spellings are compared with a normalized edit distance.
+ */
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u', 'y']);
+
+// How much of a phrase score comes from the sound (the rest comes from the spelling)
+const PHONETIC_WEIGHT = 0.7;
+
+export interface PhraseMatch {
+  /** Index of the first matched word */
+  start: number;
+  /** Index after the last matched word */
+  end: number;
+  /** Similarity between 0 and 1 */
+  score: number;
+}
+
+function isVowel(char: string | undefined): boolean {
+  return char !== undefined && VOWELS.has(char);
+}
+
+/**
+ * Simplified Double Metaphone key of a single word ("mentra" → "MNTR", "phone" → "FN")
+ */
+export function phoneticKey(word: string): string {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return '';
+
+  let key = '';
+  let i = 0;
+
+  // Silent first letters
+  if (/^(gn|kn|pn|wr|ps)/.test(w)) i = 1;
+  if (w[0] === 'x') {
+    key += 'S';
+    i = 1;
+  }
+  // All initial vowels sound alike
+  if (isVowel(w[0]) && w[0] !== 'y') {
+    key += 'A';
+    i = 1;
+  }
+
+  while (i < w.length) {
+    const c = w[i];
+    const next = w[i + 1];
+    const prev = w[i - 1];
+
+    // Doubled letters are one sound
+    if (c === prev && c !== 'c') {
+      i++;
+      continue;
+    }
+
+    switch (c) {
+      case 'b':
+        // Silent in "-mb" ("thumb")
+        if (!(prev === 'm' && i === w.length - 1)) key += 'P';
+        break;
+      case 'c':
+        if (next === 'h') {
+          key += 'X';
+          i++;
+        } else if (next === 'i' || next === 'e' || next === 'y') {
+          key += 'S';
+        } else {
+          key += 'K';
+        }
+        break;
+      case 'd':
+        if (next === 'g' && (w[i + 2] === 'e' || w[i + 2] === 'i' || w[i + 2] === 'y')) {
+          key += 'J';
+          i++;
+        } else {
+          key += 'T';
+        }
+        break;
+      case 'g':
+        if (next === 'h' && !isVowel(w[i + 2])) {
+          // "night", "though"
+          i++;
+        } else if (next === 'n' && (i + 2 === w.length || w.slice(i + 2) === 'ed')) {
+          // "sign", "signed"
+        } else if (next === 'e' || next === 'i' || next === 'y') {
+          key += 'J';
+        } else {
+          key += 'K';
+        }
+        break;
+      case 'h':
+        // Only sounded before a vowel and not after a consonant that it modifies
+        if (isVowel(next) && !(prev && 'cgpst'.includes(prev))) key += 'H';
+        break;
+      case 'k':
+        if (prev !== 'c') key += 'K';
+        break;
+      case 'p':
+        if (next === 'h') {
+          key += 'F';
+          i++;
+        } else {
+          key += 'P';
+        }
+        break;
+      case 'q':
+        key += 'K';
+        break;
+      case 's':
+        if (next === 'h' || (next === 'i' && (w[i + 2] === 'o' || w[i + 2] === 'a'))) {
+          key += 'X';
+          if (next === 'h') i++;
+        } else {
+          key += 'S';
+        }
+        break;
+      case 't':
+        if (next === 'h') {
+          key += '0';
+          i++;
+        } else if (next === 'i' && (w[i + 2] === 'o' || w[i + 2] === 'a')) {
+          key += 'X';
+        } else if (!(next === 'c' && w[i + 2] === 'h')) {
+          key += 'T';
+        }
+        break;
+      case 'v':
+        key += 'F';
+        break;
+      case 'w':
+      case 'y':
+        if (isVowel(next)) key += c.toUpperCase();
+        break;
+      case 'x':
+        key += 'KS';
+        break;
+      case 'z':
+        key += 'S';
+        break;
+      case 'a':
+      case 'e':
+      case 'i':
+      case 'o':
+      case 'u':
+        // Vowels after the first letter are dropped
+        break;
+      default:
+        // f, j, l, m, n, r
+        key += c.toUpperCase();
+    }
+    i++;
+  }
+
+  return key;
+}
+
+/**
+ * Edit distance (insertions, deletions and substitutions) between two strings
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a) return b.length;
+  if (!b) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edit distance scaled to a similarity between 0 (nothing alike) and 1 (identical)
+ */
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * Split text into lowercase words for matching, dropping punctuation
+ */
+export function toMatchWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/[^\p{L}\p{N}']/gu, ''))
+    .filter(Boolean);
+}
+
+/**
+ * How alike two word sequences sound and are spelled (0-1).
+ * Word boundaries are ignored, so "heymentra" and "hey mentra" are the same phrase.
+ */
+export function phraseSimilarity(candidate: string[], phrase: string[]): number {
+  const spelling = similarity(candidate.join(''), phrase.join(''));
+  const candidateKey = candidate.map(phoneticKey).join('');
+  const phraseKey = phrase.map(phoneticKey).join('');
+  // Non-Latin words have no phonetic key: compare spelling only
+  if (!candidateKey || !phraseKey) {
+    return spelling;
+  }
+  return PHONETIC_WEIGHT * similarity(candidateKey, phraseKey) + (1 - PHONETIC_WEIGHT) * spelling;
+}
+
+/**
+ * Find the first run of words that sounds like the phrase.
+ * Runs of the phrase's word count are tried, plus one word fewer (ASR sometimes merges words).
+ * @param words - Words of the transcript (see toMatchWords)
+ * @param phrase - The phrase to look for
+ * @param threshold - Minimum phraseSimilarity for a match
+ */
+export function findPhrase(words: string[], phrase: string, threshold: number): PhraseMatch | null {
+  const phraseWords = toMatchWords(phrase);
+  if (phraseWords.length === 0) return null;
+
+  const lengths = phraseWords.length > 1 ? [phraseWords.length, phraseWords.length - 1] : [1];
+  for (let start = 0; start < words.length; start++) {
+    let best: PhraseMatch | null = null;
+    for (const length of lengths) {
+      if (start + length > words.length) continue;
+      const score = phraseSimilarity(words.slice(start, start + length), phraseWords);
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { start, end: start + length, score };
+      }
+    }
+    if (best) return best;
+  }
+  return null;
+}
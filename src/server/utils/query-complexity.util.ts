@@ -0,0 +1,192 @@
+/**
+ * Query Complexity Classification
+ * Decides which ResponseMode (QUICK / STANDARD / DETAILED) a query needs.
+ * Classifiers are pluggable — pick one with QUERY_COMPLEXITY_CLASSIFIER ("llm" or "keyword").
+ */
+
+import { LLMProvider } from '../manager/llm.manager';
+import { usageManager } from '../manager/usage.manager';
+import {
+  ResponseMode,
+  COMPLEXITY_CLASSIFIER_PROMPT,
+  COMPLEXITY_CLASSIFIER_TIMEOUT_MS,
+} from '../constant/unifiedPrompt';
+
+// "llm" adds a blocking LLM call (up to COMPLEXITY_CLASSIFIER_TIMEOUT_MS) before every agent turn
+const QUERY_COMPLEXITY_CLASSIFIER = process.env.QUERY_COMPLEXITY_CLASSIFIER || 'keyword';
+
+export interface QueryComplexityClassifier {
+  readonly name: string;
+  /**
+   * @param query - The user's query
+   * @param userId - User any LLM token usage is recorded against
+   * @param signal - The query's cancellation signal
+   */
+  classify(query: string, userId?: string, signal?: AbortSignal): Promise<ResponseMode>;
+}
+
+// Spoken phrases that force a response length, checked before any classifier runs
+const LONG_OVERRIDE_PATTERNS = [
+  /\b(give me|tell me|i want|i'd like) the (long|longer|full|detailed) (version|answer)\b/i,
+  /\b(long|longer|detailed|full) (version|answer|explanation)\b/i,
+  /\bin (more )?detail\b/i,
+  /\belaborate\b/i,
+  /\bgo deeper\b/i,
+];
+
+const SHORT_OVERRIDE_PATTERNS = [
+  /\b(give me|tell me|i want|i'd like) the (short|shorter|quick|brief) (version|answer)\b/i,
+  /\b(short|shorter|quick|brief) (version|answer)\b/i,
+  /\b(keep it|make it) (short|brief|quick)\b/i,
+  /\bbriefly\b/i,
+  /\bin (a )?(few|one|1) (words?|sentences?)\b/i,
+  /\btl;?dr\b/i,
+];
+
+/**
+ * Detect a spoken length override like "give me the long version" or "short answer"
+ * @returns The requested ResponseMode, or null if the query has no override
+ */
+export function detectResponseModeOverride(query: string): ResponseMode | null {
+  if (SHORT_OVERRIDE_PATTERNS.some(pattern => pattern.test(query))) {
+    return ResponseMode.QUICK;
+  }
+  if (LONG_OVERRIDE_PATTERNS.some(pattern => pattern.test(query))) {
+    return ResponseMode.DETAILED;
+  }
+  return null;
+}
+
+/**
+ * Keyword heuristics — instant and offline, but coarse.
+ * Also used as the fallback when the LLM classifier fails or times out.
+ */
+export class KeywordComplexityClassifier implements QueryComplexityClassifier {
+  readonly name = 'keyword';
+
+  // Keywords indicating need for detailed responses
+  private detailedKeywords = [
+    'explain', 'how does', 'how do', 'why does', 'why do', 'why is', 'why are',
+    'what is the difference', 'compare', 'contrast', 'tell me about',
+    'describe', 'elaborate', 'in detail', 'comprehensive', 'understand',
+    'breakdown', 'walk me through', 'teach me', 'help me understand',
+    'what are the implications', 'analyze', 'evaluation', 'pros and cons',
+    'advantages and disadvantages', 'tell me more', 'give me details',
+    'solve', 'equation', 'calculate', 'compute', 'formula', 'math',
+  ];
+
+  // Keywords for standard responses (moderate complexity)
+  private standardKeywords = [
+    'how to', 'what are', 'which', 'where can', 'when should',
+    'recommend', 'suggest', 'best way', 'options for', 'ways to',
+    'process of', 'steps to', 'guide', 'tutorial', 'instructions',
+    'should i', 'should we', 'what should',
+    'recite', 'list the', 'list all', 'name the', 'name all',
+    'what is the full', 'give me the', 'sing', 'quote',
+  ];
+
+  async classify(query: string): Promise<ResponseMode> {
+    const lowerQuery = query.toLowerCase();
+
+    for (const keyword of this.detailedKeywords) {
+      if (lowerQuery.includes(keyword)) {
+        console.log(`[Complexity] DETAILED mode triggered by keyword: "${keyword}"`);
+        return ResponseMode.DETAILED;
+      }
+    }
+
+    for (const keyword of this.standardKeywords) {
+      if (lowerQuery.includes(keyword)) {
+        console.log(`[Complexity] STANDARD mode triggered by keyword: "${keyword}"`);
+        return ResponseMode.STANDARD;
+      }
+    }
+
+    // Longer queries often need more detailed responses
+    const wordCount = query.trim().split(/\s+/).length;
+    if (wordCount > 15) {
+      console.log(`[Complexity] STANDARD mode triggered by word count: ${wordCount}`);
+      return ResponseMode.STANDARD;
+    }
+
+    // Multiple question marks indicate compound questions
+    const questionMarks = (query.match(/\?/g) || []).length;
+    if (questionMarks > 1) {
+      console.log(`[Complexity] STANDARD mode triggered by multiple questions: ${questionMarks}`);
+      return ResponseMode.STANDARD;
+    }
+
+    console.log(`[Complexity] QUICK mode (default) for query`);
+    return ResponseMode.QUICK;
+  }
+}
+
+/**
+ * Asks a small, fast LLM call to pick the response mode.
+ * Falls back to another classifier if the call errors, times out, or returns garbage.
+ */
+export class LLMComplexityClassifier implements QueryComplexityClassifier {
+  readonly name = 'llm';
+  private fallback: QueryComplexityClassifier;
+  private timeoutMs: number;
+
+  constructor(fallback: QueryComplexityClassifier = new KeywordComplexityClassifier(), timeoutMs: number = COMPLEXITY_CLASSIFIER_TIMEOUT_MS) {
+    this.fallback = fallback;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async classify(query: string, userId?: string, signal?: AbortSignal): Promise<ResponseMode> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    const callSignal = signal ? AbortSignal.any([controller.signal, signal]) : controller.signal;
+
+    try {
+      const prompt = COMPLEXITY_CLASSIFIER_PROMPT.replace('{query}', query.replace(/"/g, "'"));
+      const result = await LLMProvider.withFallback(5, (llm) => llm.invoke(prompt, { signal: callSignal }), callSignal);
+      if (userId) {
+        usageManager.recordMessageUsage(userId, 'complexity_classifier', result);
+      }
+      const label = result.content.toString().trim().toLowerCase();
+
+      const mode = Object.values(ResponseMode).find(m => label.startsWith(m));
+      if (mode) {
+        console.log(`[Complexity] ${mode.toUpperCase()} mode chosen by LLM classifier`);
+        return mode;
+      }
+      console.warn(`[Complexity] LLM classifier returned "${label}", falling back to ${this.fallback.name}`);
+    } catch (error) {
+      // A cancelled query doesn't need a response mode
+      signal?.throwIfAborted();
+      console.warn(`[Complexity] LLM classifier failed (${controller.signal.aborted ? 'timeout' : error}), falling back to ${this.fallback.name}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    return this.fallback.classify(query, userId, signal);
+  }
+}
+
+/**
+ * Create the classifier configured by QUERY_COMPLEXITY_CLASSIFIER
+ */
+export function createComplexityClassifier(type: string = QUERY_COMPLEXITY_CLASSIFIER): QueryComplexityClassifier {
+  switch (type) {
+    case 'keyword':
+      return new KeywordComplexityClassifier();
+    case 'llm':
+      return new LLMComplexityClassifier();
+    default:
+      console.warn(`[Complexity] Unknown classifier "${type}", using keyword classifier`);
+      return new KeywordComplexityClassifier();
+  }
+}
+
+// Singleton instance for reuse
+let classifierInstance: QueryComplexityClassifier | null = null;
+
+export function getComplexityClassifier(): QueryComplexityClassifier {
+  if (!classifierInstance) {
+    classifierInstance = createComplexityClassifier();
+  }
+  return classifierInstance;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import { normalizeForSpeech, numberToWords } from './speech-normalizer.util';
+
+describe('numberToWords', () => {
+  test('spells out whole numbers', () => {
+    expect(numberToWords(0)).toBe('zero');
+    expect(numberToWords(4941)).toBe('four thousand nine hundred forty-one');
+    expect(numberToWords(-12)).toBe('minus twelve');
+  });
+});
+
+describe('normalizeForSpeech', () => {
+  test('reads currency, percentages, temperatures and units', () => {
+    expect(normalizeForSpeech('$4,941.50')).toBe('four thousand nine hundred forty-one dollars and fifty cents');
+    expect(normalizeForSpeech('45%')).toBe('forty-five percent');
+    expect(normalizeForSpeech('$0.99')).toBe('ninety-nine cents');
+    expect(normalizeForSpeech('72°F')).toBe('seventy-two degrees Fahrenheit');
+    expect(normalizeForSpeech('65 mph')).toBe('sixty-five miles per hour');
+  });
+
+  test('reads times and years', () => {
+    expect(normalizeForSpeech('3:30 PM')).toBe('three thirty PM');
+    expect(normalizeForSpeech('in 1984')).toBe('in nineteen eighty-four');
+  });
+
+  test('reads ranges before units and temperatures', () => {
+    expect(normalizeForSpeech('5-10°C')).toBe('five to ten degrees Celsius');
+    expect(normalizeForSpeech('5-10 km')).toBe('five to ten kilometers');
+    expect(normalizeForSpeech('2020–2024')).toBe('twenty twenty to twenty twenty-four');
+    expect(normalizeForSpeech('3-5 PM')).toBe('three to five PM');
+  });
+
+  test('reads negatives before percentages and temperatures', () => {
+    expect(normalizeForSpeech('-5%')).toBe('minus five percent');
+    expect(normalizeForSpeech('It is -3 °C')).toBe('It is minus three degrees Celsius');
+    expect(normalizeForSpeech('(-2)')).toBe('(minus two)');
+  });
+
+  test('only reads a dash as minus after a boundary', () => {
+    expect(normalizeForSpeech('COVID-19')).toBe('COVID-nineteen');
+  });
+
+  test('reads phone numbers digit by digit', () => {
+    expect(normalizeForSpeech('Call 555-1234')).toBe('Call five five five, one two three four');
+    expect(normalizeForSpeech('Call 1-800-555-1234')).toBe('Call one, eight zero zero, five five five, one two three four');
+    expect(normalizeForSpeech('(555) 555-1234')).toBe('five five five, five five five, one two three four');
+  });
+
+  test('reads ISO dates as dates', () => {
+    expect(normalizeForSpeech('2024-01-15')).toBe('January fifteenth, twenty twenty-four');
+  });
+
+  test('reads dotted version numbers part by part', () => {
+    expect(normalizeForSpeech('Update to 3.5.1.')).toBe('Update to three point five point one.');
+    expect(normalizeForSpeech('v2.0.1')).toBe('version two point zero point one');
+  });
+
+  test('reads long digit runs digit by digit', () => {
+    expect(normalizeForSpeech('18005551234')).toBe('one eight zero zero five five five one two three four');
+    expect(normalizeForSpeech('1,000,000')).toBe('one million');
+  });
+
+  test('leaves other languages unchanged', () => {
+    expect(normalizeForSpeech('Il fait 5°C', 'fr-FR')).toBe('Il fait 5°C');
+  });
+});
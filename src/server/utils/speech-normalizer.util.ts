@@ -0,0 +1,289 @@
+/**
+ * Speech normalization
+ * Rewrites compact text ("$4,941", "72°F", "3:30 PM", "45%") into words before it is sent to TTS,
+ * so answers can stay compact on the display and in the webview but still read aloud cleanly.
+ * Only English is normalized; other languages are passed through unchanged.
+ */
+
+import { getBaseLanguage } from './language.util';
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const ORDINAL_WORDS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+
+// Longest first so "km/h" wins over "km"
+const UNIT_WORDS: [string, string][] = [
+  ['km/h', 'kilometers per hour'],
+  ['kph', 'kilometers per hour'],
+  ['mph', 'miles per hour'],
+  ['lbs', 'pounds'],
+  ['lb', 'pounds'],
+  ['oz', 'ounces'],
+  ['kg', 'kilograms'],
+  ['km', 'kilometers'],
+  ['cm', 'centimeters'],
+  ['mm', 'millimeters'],
+  ['mi', 'miles'],
+  ['ft', 'feet'],
+  ['hrs', 'hours'],
+  ['hr', 'hours'],
+  ['mins', 'minutes'],
+  ['min', 'minutes'],
+  ['secs', 'seconds'],
+  ['sec', 'seconds'],
+  ['GB', 'gigabytes'],
+  ['MB', 'megabytes'],
+  ['TB', 'terabytes'],
+];
+
+// Abbreviations that are safe to expand anywhere
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\be\.g\./gi, 'for example'],
+  [/\bi\.e\./gi, 'that is'],
+  [/\bvs\.?(?=\s)/gi, 'versus'],
+  [/\betc\./gi, 'et cetera'],
+  [/\bapprox\./gi, 'approximately'],
+  [/\bw\/(?=\s)/gi, 'with'],
+  [/\s&\s/g, ' and '],
+  [/\s@\s/g, ' at '],
+];
+
+const CURRENCIES: Record<string, [string, string]> = {
+  '$': ['dollars', 'cents'],
+  '€': ['euros', 'cents'],
+  '£': ['pounds', 'pence'],
+  '¥': ['yen', ''],
+  '₹': ['rupees', 'paise'],
+};
+
+function threeDigitsToWords(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = [];
+  if (hundreds > 0) {
+    parts.push(`${ONES[hundreds]} hundred`);
+  }
+  if (rest > 0) {
+    if (rest < 20) {
+      parts.push(ONES[rest]);
+    } else {
+      const tens = TENS[Math.floor(rest / 10)];
+      parts.push(rest % 10 ? `${tens}-${ONES[rest % 10]}` : tens);
+    }
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Spell out a whole number ("4941" → "four thousand nine hundred forty-one")
+ */
+export function numberToWords(n: number): string {
+  if (!Number.isFinite(n)) return String(n);
+  if (n < 0) return `minus ${numberToWords(-n)}`;
+  n = Math.floor(n);
+  if (n < 20) return ONES[n];
+  // Too large for the scale words: read the digits
+  if (n >= 1e15) return digitsToWords(String(n));
+
+  const parts: string[] = [];
+  let scale = 0;
+  while (n > 0) {
+    const chunk = n % 1000;
+    if (chunk > 0) {
+      parts.unshift(SCALES[scale] ? `${threeDigitsToWords(chunk)} ${SCALES[scale]}` : threeDigitsToWords(chunk));
+    }
+    n = Math.floor(n / 1000);
+    scale++;
+  }
+  return parts.join(' ');
+}
+
+function digitsToWords(digits: string): string {
+  return digits.split('').map(d => ONES[Number(d)]).join(' ');
+}
+
+function ordinalToWords(n: number): string {
+  const words = numberToWords(n);
+  return words.replace(/(\w+)$/, (last) => {
+    if (ORDINAL_WORDS[last]) return ORDINAL_WORDS[last];
+    if (last.endsWith('y')) return last.slice(0, -1) + 'ieth';
+    return last + 'th';
+  });
+}
+
+/**
+ * Read a 4-digit year the way people say it ("1984" → "nineteen eighty-four", "2005" → "two thousand five")
+ */
+function yearToWords(year: number): string {
+  const high = Math.floor(year / 100);
+  const low = year % 100;
+  if (year >= 2000 && year < 2010) return numberToWords(year);
+  if (low === 0) return `${numberToWords(high)} hundred`;
+  return `${numberToWords(high)} ${low < 10 ? `oh ${ONES[low]}` : numberToWords(low)}`;
+}
+
+/**
+ * Spell out a numeric token that may contain thousands separators and a decimal part
+ */
+function numericToWords(token: string): string {
+  const [whole, fraction] = token.replace(/,/g, '').split('.');
+  // Long digit strings (codes, phone numbers) and leading zeros are read digit by digit
+  if ((whole.length > 1 && whole.startsWith('0')) || (whole.length >= MIN_DIGIT_RUN && !token.includes(','))) {
+    return digitsToWords(whole) + (fraction ? ` point ${digitsToWords(fraction)}` : '');
+  }
+  const wholeWords = numberToWords(Number(whole || '0'));
+  return fraction ? `${wholeWords} point ${digitsToWords(fraction)}` : wholeWords;
+}
+
+function currencyToWords(symbol: string, amount: string, magnitude?: string): string {
+  const [unit, subunit] = CURRENCIES[symbol];
+  if (magnitude) {
+    return `${numericToWords(amount)} ${magnitude.toLowerCase()} ${unit}`;
+  }
+  const [whole, fraction] = amount.replace(/,/g, '').split('.');
+  const wholeNumber = Number(whole || '0');
+  const unitWord = wholeNumber === 1 ? unit.replace(/s$/, '') : unit;
+  let words = `${numberToWords(wholeNumber)} ${unitWord}`;
+  const cents = fraction ? Number(fraction.padEnd(2, '0').slice(0, 2)) : 0;
+  if (cents > 0 && subunit) {
+    const centWords = `${numberToWords(cents)} ${cents === 1 && subunit === 'cents' ? 'cent' : subunit}`;
+    // "$0.99" is "ninety-nine cents", not "zero dollars and ninety-nine cents"
+    return wholeNumber === 0 ? centWords : `${words} and ${centWords}`;
+  }
+  return words;
+}
+
+function timeToWords(hours: string, minutes: string, meridiem?: string): string {
+  const h = Number(hours);
+  const m = Number(minutes);
+  let words = numberToWords(h);
+  if (m === 0) {
+    // 24-hour times are read as "fourteen hundred"
+    words += meridiem ? '' : h > 12 ? ' hundred' : " o'clock";
+  } else if (m < 10) {
+    words += ` oh ${ONES[m]}`;
+  } else {
+    words += ` ${numberToWords(m)}`;
+  }
+  if (meridiem) {
+    words += ` ${meridiem.replace(/\./g, '').toUpperCase()}`;
+  }
+  return words;
+}
+
+function unitToWords(unit: string, singular: boolean): string {
+  const words = UNIT_WORDS.find(([abbreviation]) => abbreviation === unit)?.[1] || unit;
+  if (!singular) return words;
+  return words === 'feet' ? 'foot' : words.replace(/^(\w+)s\b/, '$1');
+}
+
+// Digit runs at least this long without separators are codes or phone numbers, not amounts
+const MIN_DIGIT_RUN = 7;
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const UNIT_PATTERN = UNIT_WORDS.map(([unit]) => unit.replace('/', '\\/')).join('|');
+
+/**
+ * Convert digits, currency, percentages, temperatures, times and common abbreviations
+ * into words for text-to-speech. Text in languages other than English is returned unchanged.
+ */
+export function normalizeForSpeech(text: string, locale?: string): string {
+  if (!text || getBaseLanguage(locale) !== 'en') {
+    return text;
+  }
+
+  let result = text;
+
+  for (const [pattern, replacement] of ABBREVIATIONS) {
+    result = result.replace(pattern, replacement);
+  }
+
+  // ISO dates: "2024-01-15" → "January fifteenth, twenty twenty-four"
+  result = result.replace(/(?<![\d-])(\d{4})-(\d{2})-(\d{2})(?![\d-]|[.,]\d)/g, (match, year, month, day) => {
+    const m = Number(month);
+    const d = Number(day);
+    if (m < 1 || m > 12 || d < 1 || d > 31) return match;
+    return `${MONTHS[m - 1]} ${ordinalToWords(d)}, ${yearToWords(Number(year))}`;
+  });
+
+  // Dotted versions: "3.5.1" → "three point five point one", "v2.0.1" → "version two point zero point one"
+  result = result.replace(/(?<![\d.])(\b[vV])?(\d+(?:\.\d+){2,})(?!\.?\d)/g,
+    (_match, prefix, version) => (prefix ? 'version ' : '') + version.split('.').map((part: string) => numericToWords(part)).join(' point '));
+
+  // Other dash-grouped digits are phone numbers, read group by group: "555-1234", "1-800-555-1234"
+  result = result.replace(/(?:\(\d{3}\)\s?)?\b(?:\d+(?:-\d+){2,}|\d{3}-\d{4})\b(?![.,]?\d)/g,
+    (match) => match.split(/[^\d]+/).filter(Boolean).map(digitsToWords).join(', '));
+
+  // Numeric ranges become "to" so the units, symbols and times after them still read: "5-10°C", "2020–2024", "3-5 PM"
+  result = result.replace(new RegExp(String.raw`\b(${NUMBER})\s?[-–]\s?(?=(?:${NUMBER})\b)`, 'g'),
+    (_match, from) => `${from} to `);
+
+  // Negative numbers need a boundary before the sign: "-5%", "(-3 °C)"
+  result = result.replace(new RegExp(String.raw`(^|[\s(\[])-(?=(?:${NUMBER})\b)`, 'g'),
+    (_match, lead) => `${lead}minus `);
+
+  // Times: "3:30 PM", "9:05am", "14:00"
+  result = result.replace(/\b(\d{1,2}):(\d{2})\s*([AaPp]\.?[Mm]\.?)?(?![\d:])/g,
+    (_match, hours, minutes, meridiem) => timeToWords(hours, minutes, meridiem));
+  // Bare hours with a meridiem: "3 PM", "11am"
+  result = result.replace(/\b(\d{1,2})\s*([AaPp]\.?[Mm]\.?)(?=\W|$)/g,
+    (_match, hours, meridiem) => `${numberToWords(Number(hours))} ${meridiem.replace(/\./g, '').toUpperCase()}`);
+
+  // Currency: "$4,941.50", "€1.2 million"
+  result = result.replace(new RegExp(String.raw`([$€£¥₹])\s?(${NUMBER})(?:\s?(million|billion|trillion|thousand)\b)?`, 'gi'),
+    (_match, symbol, amount, magnitude) => currencyToWords(symbol, amount, magnitude));
+
+  // Temperatures: "72°F", "3 °C", "90°"
+  result = result.replace(new RegExp(String.raw`(${NUMBER})\s?°(?:\s?([FC])\b)?`, 'g'), (_match, amount, scale) => {
+    const degrees = `${numericToWords(amount)} degrees`;
+    if (scale === 'F') return `${degrees} Fahrenheit`;
+    if (scale === 'C') return `${degrees} Celsius`;
+    return degrees;
+  });
+
+  // Percentages: "45%", "4.5 %"
+  result = result.replace(new RegExp(String.raw`(${NUMBER})\s?%`, 'g'),
+    (_match, amount) => `${numericToWords(amount)} percent`);
+
+  // Units after a number: "65 mph", "3.2km"
+  result = result.replace(new RegExp(String.raw`(${NUMBER})\s?(${UNIT_PATTERN})\b`, 'g'),
+    (_match, amount, unit) => `${numericToWords(amount)} ${unitToWords(unit, amount === '1')}`);
+  // Rates: "per oz", "/lb"
+  result = result.replace(new RegExp(String.raw`(?:\s?\/\s?|\bper\s)(${UNIT_PATTERN})\b`, 'g'),
+    (_match, unit) => ` per ${unitToWords(unit, true)}`);
+
+  // Ordinals: "1st", "22nd", "103rd"
+  result = result.replace(/\b(\d+)(st|nd|rd|th)\b/gi, (_match, n) => ordinalToWords(Number(n)));
+
+  // Anything left: plain numbers and years
+  result = result.replace(new RegExp(String.raw`\b(${NUMBER})\b`, 'g'), (_match, amount) => numberOrYearToWords(amount));
+
+  // Symbols that TTS reads badly or not at all
+  result = result
+    .replace(/\s\+\s/g, ' plus ')
+    .replace(/[*#`]/g, '')
+    .replace(/\s{2,}/g, ' ');
+
+  return result.trim();
+}
+
+function numberOrYearToWords(token: string): string {
+  // 4-digit numbers without separators in the usual year range are read as years
+  if (/^\d{4}$/.test(token)) {
+    const n = Number(token);
+    if (n >= 1100 && n <= 2099) return yearToWords(n);
+  }
+  return numericToWords(token);
+}
@@ -0,0 +1,204 @@
+/**
+ * Tool Executor
+ * Runs the tool calls from one LLM turn concurrently, each with its own deadline,
+ * and turns every outcome (success, error, timeout, unknown tool) into a ToolMessage.
+ */
+
+import { ToolMessage } from '@langchain/core/messages';
+import { StructuredTool } from '@langchain/core/tools';
+import type { ToolCall } from '@langchain/core/messages/tool';
+import { DEFAULT_TOOL_TIMEOUT_MS, TOOL_TIMEOUT_OVERRIDES_MS } from '../constant/unifiedPrompt';
+
+export type ToolExecutionStatus = 'success' | 'error' | 'timeout' | 'unavailable';
+
+/**
+ * Error payload sent back to the model when a tool doesn't succeed
+ */
+export interface ToolExecutionError {
+  status: Exclude<ToolExecutionStatus, 'success'>;
+  tool: string;
+  message: string;
+  timeoutMs?: number;
+  /** On timeout: what the model can still answer from */
+  partialResults?: string;
+}
+
+export interface ToolExecutionResult {
+  toolCall: ToolCall;
+  status: ToolExecutionStatus;
+  /** Raw value returned by the tool (undefined unless status is 'success') */
+  result?: unknown;
+  /** Structured error (undefined if status is 'success') */
+  error?: ToolExecutionError;
+  message: ToolMessage;
+  durationMs: number;
+}
+
+// Anything with LangChain's tool invoke signature (StructuredTool, DynamicTool, ...)
+type InvokableTool = {
+  name: string;
+  invoke: (input: any, config?: any) => Promise<any>;
+};
+
+class ToolTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+  }
+}
+
+/**
+ * Get the deadline for a tool, honoring TOOL_TIMEOUT_OVERRIDES_MS
+ */
+export function getToolTimeoutMs(toolName: string): number {
+  return TOOL_TIMEOUT_OVERRIDES_MS[toolName] ?? DEFAULT_TOOL_TIMEOUT_MS;
+}
+
+/**
+ * Run one tool call, rejecting with ToolTimeoutError once the deadline passes
+ * (or with the abort reason if the whole query is cancelled).
+ * The tool receives an AbortSignal so well-behaved tools (e.g. axios calls) stop working too.
+ */
+async function invokeWithDeadline(
+  tool: InvokableTool,
+  input: unknown,
+  toolCall: ToolCall,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<unknown> {
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ToolTimeoutError(timeoutMs));
+    }, timeoutMs);
+
+    onAbort = () => {
+      controller.abort();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([
+      tool.invoke(input, { configurable: { runId: toolCall.id }, signal: controller.signal }),
+      deadline,
+    ]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+function toContent(result: unknown): string {
+  if (result instanceof ToolMessage) {
+    return result.content.toString();
+  }
+  const content = typeof result === 'string' ? result : JSON.stringify(result);
+  return content || 'Tool executed successfully but did not return any information.';
+}
+
+function buildErrorMessage(toolCallId: string, error: ToolExecutionError): ToolMessage {
+  return new ToolMessage({
+    content: JSON.stringify({ error }),
+    tool_call_id: toolCallId,
+    name: error.tool,
+    status: 'error',
+  });
+}
+
+/**
+ * Execute all tool calls of one LLM turn concurrently.
+ * Results come back in the same order as toolCalls, so every tool_call_id gets exactly one ToolMessage.
+ * When a tool times out, its message says which other calls in the turn did complete so the model
+ * can answer from the partial results instead of retrying.
+ *
+ * @param toolCalls - Tool calls requested by the model
+ * @param tools - Tools available to the agent
+ * @param options.timeoutFor - Deadline per tool name (defaults to getToolTimeoutMs)
+ * @param options.signal - Cancels every tool call; the returned promise then rejects with the abort reason
+ */
+export async function executeToolCalls(
+  toolCalls: ToolCall[],
+  tools: InvokableTool[],
+  options: { timeoutFor?: (toolName: string) => number; signal?: AbortSignal } = {},
+): Promise<ToolExecutionResult[]> {
+  const { timeoutFor = getToolTimeoutMs, signal } = options;
+
+  const results = await Promise.all(toolCalls.map(async (toolCall): Promise<ToolExecutionResult> => {
+    const toolCallId = toolCall.id || `fallback_${Date.now()}`;
+    const startTime = Date.now();
+
+    const selectedTool = tools.find(tool => tool.name === toolCall.name);
+    if (!selectedTool) {
+      const error: ToolExecutionError = {
+        status: 'unavailable',
+        tool: toolCall.name,
+        message: `Tool ${toolCall.name} unavailable`,
+      };
+      return { toolCall, status: 'unavailable', error, message: buildErrorMessage(toolCallId, error), durationMs: 0 };
+    }
+
+    const toolInput = selectedTool instanceof StructuredTool ? toolCall.args : JSON.stringify(toolCall.args);
+    const timeoutMs = timeoutFor(toolCall.name);
+
+    try {
+      const result = await invokeWithDeadline(selectedTool, toolInput, toolCall, timeoutMs, signal);
+      return {
+        toolCall,
+        status: 'success',
+        result,
+        message: new ToolMessage({
+          content: toContent(result),
+          tool_call_id: toolCallId,
+          name: toolCall.name,
+        }),
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      // A cancelled query isn't a tool failure — let it propagate
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      const timedOut = error instanceof ToolTimeoutError;
+      if (timedOut) {
+        console.warn(`[ToolExecutor] ⏰ Tool ${toolCall.name} timed out after ${timeoutMs}ms`);
+      } else {
+        console.error(`[ToolExecutor] Error invoking tool ${toolCall.name}:`, error);
+      }
+      const toolError: ToolExecutionError = {
+        status: timedOut ? 'timeout' : 'error',
+        tool: toolCall.name,
+        message: timedOut
+          ? `${toolCall.name} did not respond within ${Math.round(timeoutMs / 1000)} seconds`
+          : `Error executing tool: ${error instanceof Error ? error.message : String(error)}`,
+        ...(timedOut ? { timeoutMs } : {}),
+      };
+      return {
+        toolCall,
+        status: toolError.status,
+        error: toolError,
+        message: buildErrorMessage(toolCallId, toolError),
+        durationMs: Date.now() - startTime,
+      };
+    }
+  }));
+
+  // Tell the model what it still has to work with when something timed out
+  const completed = results.filter(r => r.status === 'success').map(r => r.toolCall.name);
+  for (const result of results) {
+    if (result.status !== 'timeout' || !result.error) continue;
+    result.error.partialResults = completed.length > 0
+      ? `Results are available from: ${completed.join(', ')}. Answer using those and mention that ${result.toolCall.name} was too slow.`
+      : `No other results are available. Do not retry ${result.toolCall.name}; tell the user it is not responding right now.`;
+    result.message = buildErrorMessage(result.message.tool_call_id, result.error);
+  }
+
+  return results;
+}